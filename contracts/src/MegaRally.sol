@@ -195,6 +195,24 @@ contract MegaRally {
     }
 
     function recordAttemptEnd(uint256 _tournamentId, address _player, uint256 _score) external onlyOperator whenNotPaused {
+        _recordAttemptEnd(_tournamentId, _player, _score);
+    }
+
+    /// @notice End an attempt and emit ObstaclePassed for every obstacle it cleared, in one tx
+    function recordAttemptEndWithObstacles(
+        uint256 _tournamentId,
+        address _player,
+        uint256 _score,
+        uint256[] calldata _obstacleIds
+    ) external onlyOperator whenNotPaused {
+        uint8 attemptNumber = entries[_tournamentId][_player].attemptsUsed + 1;
+        for (uint256 i = 0; i < _obstacleIds.length; i++) {
+            emit ObstaclePassed(_tournamentId, _player, attemptNumber, _obstacleIds[i]);
+        }
+        _recordAttemptEnd(_tournamentId, _player, _score);
+    }
+
+    function _recordAttemptEnd(uint256 _tournamentId, address _player, uint256 _score) internal {
         Tournament storage t = tournaments[_tournamentId];
         require(!t.ended, "Tournament ended");
         require(!t.cancelled, "Tournament cancelled");
@@ -17,6 +17,10 @@ contract MegaRallyTest is Test {
     address public bob = address(0xB0B);
     address public random = address(0xCAFE);
 
+    // Mirrors of MegaRally events, for expectEmit
+    event ObstaclePassed(uint256 indexed tournamentId, address indexed player, uint8 attemptNumber, uint256 obstacleId);
+    event AttemptEnded(uint256 indexed tournamentId, address indexed player, uint8 attemptNumber, uint256 score);
+
     receive() external payable {}
 
     function setUp() public {
@@ -140,6 +144,69 @@ contract MegaRallyTest is Test {
         assertEq(e.scores[2], 3);
     }
 
+    function test_recordAttemptEndWithObstacles() public {
+        rally.createTournament(0.01 ether, 1 days);
+
+        vm.prank(alice);
+        rally.enter{value: 0.01 ether}(1);
+
+        uint256[] memory obstacles = new uint256[](3);
+        obstacles[0] = 1;
+        obstacles[1] = 2;
+        obstacles[2] = 3;
+
+        vm.startPrank(operator);
+        rally.startAttempt(1, alice);
+
+        vm.expectEmit(true, true, false, true);
+        emit ObstaclePassed(1, alice, 1, 1);
+        vm.expectEmit(true, true, false, true);
+        emit ObstaclePassed(1, alice, 1, 2);
+        vm.expectEmit(true, true, false, true);
+        emit ObstaclePassed(1, alice, 1, 3);
+        vm.expectEmit(true, true, false, true);
+        emit AttemptEnded(1, alice, 1, 250);
+        rally.recordAttemptEndWithObstacles(1, alice, 250, obstacles);
+
+        // Empty batch is just an attempt end
+        rally.startAttempt(1, alice);
+        rally.recordAttemptEndWithObstacles(1, alice, 40, new uint256[](0));
+        vm.stopPrank();
+
+        MegaRally.Entry memory e = rally.getEntry(1, alice);
+        assertEq(e.attemptsUsed, 2);
+        assertEq(e.totalScore, 290);
+        assertEq(e.bestScore, 250);
+    }
+
+    function test_recordAttemptEndWithObstaclesChecksLimits() public {
+        rally.createTournament(0.01 ether, 1 days);
+
+        vm.prank(alice);
+        rally.enter{value: 0.01 ether}(1);
+
+        uint256[] memory obstacles = new uint256[](1);
+        obstacles[0] = 1;
+
+        vm.prank(alice);
+        vm.expectRevert("Not operator");
+        rally.recordAttemptEndWithObstacles(1, alice, 5, obstacles);
+
+        vm.startPrank(operator);
+        vm.expectRevert("Score exceeds maximum");
+        rally.recordAttemptEndWithObstacles(1, alice, 10001, obstacles);
+
+        vm.expectRevert("Not entered");
+        rally.recordAttemptEndWithObstacles(1, bob, 5, obstacles);
+
+        for (uint256 i = 0; i < 3; i++) {
+            rally.recordAttemptEndWithObstacles(1, alice, 5, obstacles);
+        }
+        vm.expectRevert("No attempts left");
+        rally.recordAttemptEndWithObstacles(1, alice, 5, obstacles);
+        vm.stopPrank();
+    }
+
     function test_noMoreThan3AttemptsPerTicket() public {
         rally.createTournament(0.01 ether, 1 days);
 
@@ -449,6 +516,9 @@ contract MegaRallyTest is Test {
 
         vm.expectRevert("Paused");
         rally.recordAttemptEnd(1, alice, 10);
+
+        vm.expectRevert("Paused");
+        rally.recordAttemptEndWithObstacles(1, alice, 10, new uint256[](0));
         vm.stopPrank();
     }
 
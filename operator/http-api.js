@@ -0,0 +1,178 @@
+// Read-only HTTP API, served on the same port as the WebSocket server.
+// Everything comes from the event index, so a request costs no RPC calls.
+//
+//   GET /health                       indexer sync state (503 until synced)
+//   GET /metrics                      Prometheus metrics
+//   GET /status                       the same metrics as a page for humans
+//   GET /tournaments                  all tournaments, newest first
+//   GET /tournaments/:id              one tournament
+//   GET /tournaments/:id/leaderboard  ticket entries, best first
+//   GET /players/:address/history     a player's entries, newest tournament first
+//                                     (complete: false if the index starts too
+//                                     late to hold all of them)
+//
+// Responses carry the block they reflect so callers can tell how fresh they are.
+
+import { groupTickets, rankTickets } from "../web/src/shared/tickets.mjs";
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const escapeHtml = (text) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Refreshes itself every 5 seconds
+function statusPage(rows) {
+  const body = rows
+    .map(
+      (r) =>
+        `<tr title="${escapeHtml(r.help)}"><td>${escapeHtml(r.name)}${escapeHtml(r.labels)}</td><td>${escapeHtml(r.value)}</td></tr>`
+    )
+    .join("\n");
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="5">
+<title>MegaRally operator</title>
+<style>
+  body { font: 14px monospace; background: #0a0a1a; color: #ddd; padding: 1rem; }
+  td { padding: 2px 12px 2px 0; } td:last-child { color: #00f0ff; text-align: right; }
+</style>
+</head>
+<body>
+<h1>MegaRally operator</h1>
+<p>${new Date().toISOString()}</p>
+<table>
+${body}
+</table>
+</body>
+</html>`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function tournamentSummary(t) {
+  return {
+    id: t.id,
+    entryFee: t.entryFee,
+    endTime: t.endTime,
+    prizePool: t.prizePool,
+    ended: t.ended,
+    cancelled: t.cancelled,
+    winner: t.winner ?? ZERO_ADDRESS,
+    playerCount: t.players.length,
+  };
+}
+
+function leaderboard(indexer, id) {
+  return rankTickets(
+    indexer.entries(id).flatMap((e) => groupTickets(e.player, e.tickets, e.scores))
+  );
+}
+
+// Entries whose tournament was created before the index starts are left out
+function history(indexer, address) {
+  return indexer
+    .playerHistory(address)
+    .filter((e) => indexer.tournament(e.tournamentId))
+    .map((e) => {
+      const t = indexer.tournament(e.tournamentId);
+      return {
+        tournamentId: e.tournamentId,
+        entryFee: t.entryFee,
+        endTime: t.endTime,
+        prizePool: t.prizePool,
+        ended: t.ended,
+        cancelled: t.cancelled,
+        winner: t.winner ?? ZERO_ADDRESS,
+        scores: e.scores,
+        attemptsUsed: e.attemptsUsed,
+        tickets: e.tickets,
+        totalScore: e.totalScore,
+        bestScore: e.bestScore,
+        ticketEntries: groupTickets(e.player, e.tickets, e.scores),
+      };
+    });
+}
+
+export function createHttpHandler({ indexer, metrics }) {
+  const startedAt = Date.now();
+
+  return (req, res) => {
+    let pathname;
+    try {
+      ({ pathname } = new URL(req.url, "http://localhost"));
+    } catch {
+      return sendJson(res, 400, { error: "Bad request" });
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+      });
+      return res.end();
+    }
+    if (req.method !== "GET") return sendJson(res, 405, { error: "Method not allowed" });
+
+    if (pathname === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      return res.end(metrics.render());
+    }
+
+    if (pathname === "/status") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      return res.end(statusPage(metrics.snapshot()));
+    }
+
+    if (pathname === "/health") {
+      const status = indexer.status();
+      return sendJson(res, status.synced ? 200 : 503, {
+        status: status.synced ? "ok" : "syncing",
+        uptime: Math.floor((Date.now() - startedAt) / 1000),
+        ...status,
+      });
+    }
+
+    if (!indexer.synced) return sendJson(res, 503, { error: "Index is still syncing" });
+    const block = indexer.status().headBlock;
+
+    if (pathname === "/tournaments") {
+      const tournaments = indexer.tournaments().map(tournamentSummary).reverse();
+      return sendJson(res, 200, { block, tournaments });
+    }
+
+    let match = pathname.match(/^\/tournaments\/(\d+)(\/leaderboard)?$/);
+    if (match) {
+      const id = Number(match[1]);
+      const t = indexer.tournament(id);
+      if (!t) return sendJson(res, 404, { error: "Tournament not found" });
+      if (match[2]) {
+        return sendJson(res, 200, { block, tournamentId: id, entries: leaderboard(indexer, id) });
+      }
+      return sendJson(res, 200, { block, tournament: tournamentSummary(t) });
+    }
+
+    match = pathname.match(/^\/players\/([^/]+)\/history$/);
+    if (match) {
+      if (!ADDRESS_RE.test(match[1])) return sendJson(res, 400, { error: "Invalid address" });
+      const player = match[1].toLowerCase();
+      return sendJson(res, 200, {
+        block,
+        player,
+        complete: indexer.complete(),
+        history: history(indexer, player),
+      });
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  };
+}
@@ -5,11 +5,29 @@ import {
   http,
   defineChain,
   verifyMessage,
+  verifyTypedData,
   isAddress,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe";
 import { WebSocketServer } from "ws";
 import crypto from "crypto";
+import { createServer } from "http";
+import { createStore } from "./store.js";
+import { TxManager } from "./tx-manager.js";
+import { Indexer } from "./indexer.js";
+import { createHttpHandler } from "./http-api.js";
+import { Metrics } from "./metrics.js";
+import { Sessions } from "./sessions.js";
+import { parseReplay, simulateReplay } from "../web/src/shared/replay.mjs";
+import { obstacleSchedule } from "../web/src/shared/simulation.mjs";
+import { RULES_VERSION, STEP_MS, MAX_RUN_MS } from "../web/src/shared/rules.mjs";
+import { SESSION_KEY_SCOPE, delegationTypedData } from "../web/src/shared/session-key.mjs";
+import {
+  PROTOCOL_VERSION,
+  OBSTACLE_NACK_REASONS,
+  validateClientMessage,
+} from "../web/src/shared/protocol.mjs";
 
 const MEGARALLY_ADDRESS =
   process.env.CONTRACT_ADDRESS || "0x6E3b0923c176cfAa3A534b7610534Aca12084f3B";
@@ -47,6 +65,18 @@ const MEGARALLY_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "recordAttemptEndWithObstacles",
+    inputs: [
+      { name: "_tournamentId", type: "uint256" },
+      { name: "_player", type: "address" },
+      { name: "_score", type: "uint256" },
+      { name: "_obstacleIds", type: "uint256[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "getEntry",
@@ -115,6 +145,85 @@ const MEGARALLY_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  // Events followed by the indexer
+  {
+    type: "event",
+    name: "TournamentCreated",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "entryFee", type: "uint256", indexed: false },
+      { name: "endTime", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "PlayerEntered",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "player", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "TicketPurchased",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "player", type: "address", indexed: true },
+      { name: "ticketNumber", type: "uint8", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "AttemptEnded",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "player", type: "address", indexed: true },
+      { name: "attemptNumber", type: "uint8", indexed: false },
+      { name: "score", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "TournamentEnded",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "winner", type: "address", indexed: true },
+      { name: "prize", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "TournamentCancelled",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "PrizePending",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "winner", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "RefundPending",
+    inputs: [
+      { name: "tournamentId", type: "uint256", indexed: true },
+      { name: "player", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Withdrawn",
+    inputs: [
+      { name: "to", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
 ];
 
 const RPC_URL = process.env.RPC_URL || "https://carrot.megaeth.com/rpc";
@@ -147,18 +256,102 @@ const publicClient = createPublicClient({
   transport: http(RPC_URL),
 });
 
-// --- Scoring constants (must match game-engine.ts) ---
-const OBSTACLE_BONUS = 25;
-const OBSTACLE_SPEED_START = 6;
-const OBSTACLE_SPEED_INCREMENT = 0.0008;
-const DISTANCE_SCORE_RATE = 0.15;
-const FRAME_INTERVAL_MS = 16; // ~60fps
-const MAX_GAME_DURATION_MS = 5 * 60 * 1000; // 5 minutes max per attempt
-const MIN_OBSTACLE_INTERVAL_MS = 200; // Fastest possible obstacle gap based on game physics
+// --- Metrics (served at /metrics, and readable at /status) ---
+// Gauges with a function are read at scrape time from the live state.
+const metrics = new Metrics();
+metrics.gauge("megarally_ws_connections", "Open WebSocket connections", () => wss.clients.size);
+metrics.gauge(
+  "megarally_authenticated_sessions",
+  "Connections that completed auth",
+  () => authenticatedClients.size
+);
+metrics.gauge("megarally_active_games", "Attempts in progress", () => activeGames.size);
+metrics.gauge(
+  "megarally_tx_queue_depth",
+  "Transactions queued or waiting for a receipt",
+  () => txManager.depth
+);
+metrics.histogram(
+  "megarally_tx_duration_seconds",
+  "Time from request to a mined (or abandoned) transaction, by function"
+);
+metrics.counter("megarally_tx_total", "Settled transactions, by function and result");
+metrics.unlabeledCounter("megarally_tx_fee_bumps_total", "Transactions re-sent with higher fees");
+metrics.unlabeledCounter(
+  "megarally_dead_letters_total",
+  "Scores that could not be recorded onchain"
+);
+metrics.unlabeledCounter(
+  "megarally_rate_limited_total",
+  "Messages rejected by the per-player rate limit"
+);
+metrics.gauge("megarally_operator_balance_eth", "Operator wallet balance in ETH");
+metrics.gauge("megarally_indexer_lag_blocks", "Blocks between the chain head and the index", () => {
+  const { headBlock, confirmedBlock } = indexer.status();
+  return headBlock === null ? 0 : headBlock - confirmedBlock;
+});
+
+// Every contract write goes through here (nonces, receipts, fee bumps)
+const txManager = new TxManager({
+  walletClient,
+  publicClient,
+  account,
+  address: MEGARALLY_ADDRESS,
+  abi: MEGARALLY_ABI,
+  onSettled: (functionName, ok, seconds) => {
+    metrics.inc("megarally_tx_total", { function: functionName, result: ok ? "success" : "failure" });
+    metrics.observe("megarally_tx_duration_seconds", seconds, { function: functionName });
+  },
+  onBump: () => metrics.inc("megarally_tx_fee_bumps_total"),
+});
+
+// Obstacles go onchain in one batch with the attempt's score. Set
+// LIVE_OBSTACLE_EVENTS=true to also send a recordObstacle tx for each one as
+// it's passed (the live "onchain" demo) — one tx per obstacle.
+const LIVE_OBSTACLE_EVENTS = process.env.LIVE_OBSTACLE_EVENTS === "true";
+
+// --- Game limits ---
+const MAX_GAME_DURATION_MS = MAX_RUN_MS; // 5 minutes max per attempt
 
-// Track active games: playerId -> { tournamentId, obstacles, obstacleIds, ws, startTime, lastObstacleTime }
+// Track active games: playerId -> game state (built in handleStartAttempt)
 const activeGames = new Map();
 
+// Attempts that have ended: attemptId -> { player, requestId, tournamentId,
+// attemptNumber, ws, reply, settledAt }.
+// A retried START_ATTEMPT or CRASH for one gets the original answer instead of
+// acting twice. `reply` is its SCORE_RECORDED/SCORE_FAILED once the score tx
+// settles, and `ws` is whoever is waiting for it.
+const finishedAttempts = new Map();
+const FINISHED_ATTEMPT_TTL_MS = 10 * 60 * 1000; // after settling
+
+// Durable copy of started games and of scores not yet onchain (see reconcileStore).
+// Results are keyed by attemptId, so two of a player's results can never share
+// an entry or a score tx.
+const store = createStore(
+  process.env.OPERATOR_STORE || "file",
+  process.env.STORE_PATH || "./data/operator-store.json"
+);
+
+// Local copy of contract state, built from events (see indexer.js)
+const indexer = new Indexer({
+  publicClient,
+  address: MEGARALLY_ADDRESS,
+  abi: MEGARALLY_ABI,
+  store: createStore(
+    process.env.OPERATOR_STORE || "file",
+    process.env.INDEXER_PATH || "./data/indexer.json"
+  ),
+  startBlock: BigInt(process.env.INDEXER_START_BLOCK || 0),
+});
+
+// Sign-In with Ethereum: the message must name the site the player is on (the
+// socket's Origin) and, if SIWE_DOMAINS is set, one of those domains.
+const SIWE_DOMAINS = process.env.SIWE_DOMAINS
+  ? process.env.SIWE_DOMAINS.split(",").map((d) => d.trim())
+  : null;
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000; // sign again after 2 hours
+const sessions = new Sessions(store, SESSION_TTL_MS);
+
 // Track authenticated connections: ws -> { address, nonce }
 const authenticatedClients = new Map();
 
@@ -167,21 +360,6 @@ const rateLimits = new Map();
 const RATE_LIMIT_WINDOW_MS = 1000;
 const RATE_LIMIT_MAX_ACTIONS = 10;
 
-// TX queue to prevent nonce conflicts (with timeout to prevent deadlock)
-const TX_TIMEOUT_MS = 30000;
-let txQueue = Promise.resolve();
-function queueTx(fn) {
-  txQueue = txQueue.then(() => {
-    return Promise.race([
-      fn(),
-      new Promise((_, reject) => setTimeout(() => reject(new Error("TX timeout")), TX_TIMEOUT_MS)),
-    ]);
-  }).catch((err) => {
-    console.error("TX failed:", err.message);
-  });
-  return txQueue;
-}
-
 function checkRateLimit(address) {
   const now = Date.now();
   const limit = rateLimits.get(address);
@@ -196,18 +374,105 @@ function checkRateLimit(address) {
   return true;
 }
 
-// Compute score server-side from obstacle count and elapsed time
-function computeScore(obstacleCount, elapsedMs) {
-  // Cap elapsed time to prevent unbounded score accumulation
-  const cappedMs = Math.min(elapsedMs, MAX_GAME_DURATION_MS);
-  const frames = Math.floor(cappedMs / FRAME_INTERVAL_MS);
-  let distanceScore = 0;
-  for (let f = 0; f < frames; f++) {
-    const speed = Math.min(14, OBSTACLE_SPEED_START + f * OBSTACLE_SPEED_INCREMENT);
-    distanceScore += DISTANCE_SCORE_RATE * (speed / OBSTACLE_SPEED_START);
+// Allowance for network latency when comparing game time to our clock
+const CLIENT_CLOCK_SLACK_MS = 2000;
+
+// --- Message timing ---
+// Gameplay messages carry a per-attempt `seq`, the simulation `frame` they
+// describe, and `at`: when the client sent them, on our clock (the client
+// measures the offset with CLOCK_SYNC). Timing is judged from these rather
+// than from when packets happen to arrive.
+const MAX_MESSAGE_AGE_MS = 30000; // in flight, or queued while the client re-authenticates
+
+// Duplicate or out-of-order messages (a seq we've already seen) are dropped
+function acceptSeq(game, seq) {
+  if (!Number.isInteger(seq) || seq <= game.lastSeq) return false;
+  game.lastSeq = seq;
+  return true;
+}
+
+// The client's send time, as long as it's one the message could really have
+function sentAt(at) {
+  const now = Date.now();
+  if (!Number.isFinite(at) || at > now + CLIENT_CLOCK_SLACK_MS || at < now - MAX_MESSAGE_AGE_MS) {
+    return now;
   }
-  const obstacleScore = obstacleCount * OBSTACLE_BONUS;
-  return Math.floor(distanceScore + obstacleScore);
+  return Math.min(at, now);
+}
+
+// True if the run claims to be further along than the time it has had
+function aheadOfRealTime(game, frame, at) {
+  return frame * STEP_MS > sentAt(at) - game.startTime + CLIENT_CLOCK_SLACK_MS;
+}
+
+// Why an OBSTACLE_PASSED didn't count, sent back in OBSTACLE_NACK (see protocol.mjs)
+const NACK_REASONS = Object.fromEntries(OBSTACLE_NACK_REASONS.map((r) => [r, r]));
+
+// Clients beat every 60 frames (~1s). This much silence means the game froze
+// or the client is holding the attempt open without playing it.
+const HEARTBEAT_TIMEOUT_MS = 10000;
+
+// How long an attempt survives its connection dropping. A client that
+// reconnects within this window can RESUME it with the token from ATTEMPT_STARTED.
+const RESUME_GRACE_MS = 30000;
+
+// --- Replay verification ---
+
+// Re-run the submitted replay and decide what gets recorded onchain.
+//   verified — the simulation reproduces the client's run exactly
+//   mismatch — valid replay, but the client claimed something else (flagged;
+//              the simulated score stands)
+//   rejected — no usable replay, or an impossible one; the attempt scores 0
+function verifyReplay(game, replayText) {
+  if (!replayText) {
+    return { status: "rejected", score: 0, reason: "No replay submitted" };
+  }
+
+  let replay, result;
+  try {
+    replay = parseReplay(replayText);
+    result = simulateReplay(replay);
+  } catch (err) {
+    return { status: "rejected", score: 0, reason: err.message };
+  }
+
+  if (replay.seed !== game.seed) {
+    return { status: "rejected", score: 0, reason: "Replay is for a different course" };
+  }
+
+  // A run can't take fewer real milliseconds than it has frames
+  const elapsedMs = Date.now() - game.startTime;
+  if (result.frames * STEP_MS > Math.min(elapsedMs, MAX_GAME_DURATION_MS) + CLIENT_CLOCK_SLACK_MS) {
+    return { status: "rejected", score: 0, reason: "Replay is longer than the attempt" };
+  }
+
+  if (replay.frames < game.lastBeatFrame) {
+    return {
+      status: "mismatch",
+      score: result.score,
+      reason: `Replay ends at frame ${replay.frames}, heartbeat reached ${game.lastBeatFrame}`,
+    };
+  }
+
+  if (result.frames !== replay.frames || result.score !== replay.score) {
+    return {
+      status: "mismatch",
+      score: result.score,
+      reason: `Client reported ${replay.score} over ${replay.frames} frames`,
+    };
+  }
+
+  // Every obstacle reported live must be one the replay actually clears
+  const cleared = new Set(result.obstacleIds);
+  if (game.obstacles.some((id) => !cleared.has(id))) {
+    return {
+      status: "mismatch",
+      score: result.score,
+      reason: "Reported obstacles not cleared in replay",
+    };
+  }
+
+  return { status: "verified", score: result.score };
 }
 
 const PORT = process.env.PORT || 8080;
@@ -215,9 +480,16 @@ const MAX_CONNECTIONS = 200;
 const MAX_CONNECTIONS_PER_IP = 5;
 const ipConnections = new Map();
 
+// Restore state before accepting connections, so a RESUME never finds it missing
+await reconcileStore();
+indexer.start();
+
+// Plain HTTP requests get the read API; upgrades go to the WebSocket server
+const server = createServer(createHttpHandler({ indexer, metrics }));
+
 const wss = new WebSocketServer({
-  port: PORT,
-  maxPayload: 1024, // 1KB max message size
+  server,
+  maxPayload: 16 * 1024, // 16KB max message size — room for a long replay
 });
 
 wss.on("connection", (ws, req) => {
@@ -245,14 +517,41 @@ wss.on("connection", (ws, req) => {
 
   // Send auth challenge
   const nonce = crypto.randomBytes(16).toString("hex");
-  ws.send(JSON.stringify({ type: "AUTH_CHALLENGE", nonce }));
+  // Advertise our versions so an outdated client can stop before asking for a signature
+  ws.send(
+    JSON.stringify({
+      type: "AUTH_CHALLENGE",
+      nonce,
+      protocolVersion: PROTOCOL_VERSION,
+      rulesVersion: RULES_VERSION,
+    })
+  );
   // Temporarily store nonce on the ws object until auth completes
   ws._pendingNonce = nonce;
+  ws._originHost = originHost(req.headers.origin);
 
   ws.on("message", async (data) => {
+    let msg;
     try {
-      const msg = JSON.parse(data.toString());
+      msg = JSON.parse(data.toString());
+    } catch {
+      sendError(ws, "INVALID_MESSAGE", "Message is not valid JSON");
+      return;
+    }
 
+    // Nothing reaches a handler without matching the shared schema
+    const checked = validateClientMessage(msg);
+    if (!checked.ok) {
+      const { code, message, field } = checked.error;
+      sendError(ws, code, message, {
+        replyTo: typeof msg?.type === "string" ? msg.type : undefined,
+        field,
+      });
+      return;
+    }
+    msg = checked.message;
+
+    try {
       // --- AUTH message: must be first ---
       if (msg.type === "AUTH") {
         await handleAuth(ws, msg);
@@ -262,9 +561,10 @@ wss.on("connection", (ws, req) => {
       // All other messages require authentication
       const session = authenticatedClients.get(ws);
       if (!session) {
-        ws.send(
-          JSON.stringify({ type: "ERROR", message: "Not authenticated" })
-        );
+        sendError(ws, "NOT_AUTHENTICATED", "Not authenticated", {
+          replyTo: msg.type,
+          attemptId: msg.attemptId,
+        });
         return;
       }
 
@@ -272,33 +572,52 @@ wss.on("connection", (ws, req) => {
 
       // Rate limit check
       if (!checkRateLimit(player)) {
-        ws.send(
-          JSON.stringify({ type: "ERROR", message: "Rate limited" })
-        );
+        metrics.inc("megarally_rate_limited_total");
+        if (msg.type === "OBSTACLE_PASSED") {
+          sendObstacleNack(ws, msg, NACK_REASONS.RATE_LIMITED);
+          return;
+        }
+        sendError(ws, "RATE_LIMITED", "Rate limited", {
+          replyTo: msg.type,
+          attemptId: msg.attemptId,
+        });
         return;
       }
 
       switch (msg.type) {
         case "START_ATTEMPT":
-          await handleStartAttempt(msg.tournamentId, player, ws);
+          await handleStartAttempt(msg, player, ws);
           break;
 
         case "OBSTACLE_PASSED":
-          await handleObstaclePassed(player, msg.obstacleId);
+          await handleObstaclePassed(player, msg, ws);
           break;
 
         case "CRASH":
-          await handleCrash(player);
+          await handleCrash(player, msg, ws);
+          break;
+
+        case "HEARTBEAT":
+          handleHeartbeat(player, msg, ws);
+          break;
+
+        case "RESUME":
+          handleResume(player, msg.token, ws);
           break;
 
-        default:
+        case "CLOCK_SYNC":
           ws.send(
-            JSON.stringify({ type: "ERROR", message: "Unknown type" })
+            JSON.stringify({
+              type: "CLOCK_SYNC",
+              clientTime: msg.clientTime,
+              serverTime: Date.now(),
+            })
           );
+          break;
       }
     } catch (err) {
       console.error("Message error:", err);
-      ws.send(JSON.stringify({ type: "ERROR", message: err.message }));
+      sendError(ws, "INTERNAL", err.message, { replyTo: msg.type, attemptId: msg.attemptId });
     }
   });
 
@@ -306,53 +625,164 @@ wss.on("connection", (ws, req) => {
     console.log("Client disconnected");
     const session = authenticatedClients.get(ws);
     if (session) {
-      activeGames.delete(session.address);
+      const game = activeGames.get(session.address);
+      if (game && game.ws === ws) {
+        // Hold the attempt open — a mobile blip shouldn't cost an onchain attempt
+        game.ws = null;
+        game.disconnectedAt = Date.now();
+      }
       rateLimits.delete(session.address);
       authenticatedClients.delete(ws);
     }
   });
 });
 
+// The host a browser connection came from, undefined without an Origin header
+// (not a browser), or null if the header doesn't parse — sandboxed frames and
+// file:// pages send "null". A null origin matches no SIWE domain.
+function originHost(origin) {
+  if (!origin) return undefined;
+  try {
+    return new URL(origin).host;
+  } catch {
+    return null;
+  }
+}
+
+// Structured ERROR (see protocol.mjs); replyTo and attemptId let the client
+// fail the request it answers
+function sendError(ws, code, message, { replyTo, field, attemptId } = {}) {
+  ws.send(JSON.stringify({ type: "ERROR", code, message, replyTo, field, attemptId }));
+}
+
+function sendAuthFailed(ws, code, message, extra = {}) {
+  ws.send(JSON.stringify({ type: "AUTH_FAILED", code, message, ...extra }));
+}
+
+// AUTH carries either a SIWE message for our challenge nonce — signed by the
+// wallet itself or by a session key it delegated to — or the session token
+// from an earlier sign-in
 async function handleAuth(ws, msg) {
-  const { address, signature } = msg;
+  const { protocolVersion, rulesVersion } = msg;
   const nonce = ws._pendingNonce;
 
   if (!nonce) {
-    ws.send(
-      JSON.stringify({ type: "AUTH_FAILED", message: "No pending challenge" })
-    );
+    sendAuthFailed(ws, "NO_CHALLENGE", "No pending challenge");
     return;
   }
 
-  if (!address || !signature || !isAddress(address)) {
-    ws.send(
-      JSON.stringify({ type: "AUTH_FAILED", message: "Invalid auth data" })
-    );
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    sendAuthFailed(ws, "PROTOCOL_MISMATCH", "Game version out of date — reload the page", {
+      protocolVersion: PROTOCOL_VERSION,
+    });
+    return;
+  }
+
+  // Scores from a client on other rules would never match our simulation
+  if (rulesVersion !== RULES_VERSION) {
+    sendAuthFailed(ws, "RULES_MISMATCH", "Game version out of date — reload the page", {
+      rulesVersion: RULES_VERSION,
+    });
+    return;
+  }
+
+  if (msg.sessionToken !== undefined) {
+    const session = sessions.get(msg.sessionToken);
+    if (!session) {
+      // The challenge stays open so the client can sign in on this connection
+      sendAuthFailed(ws, "SESSION_EXPIRED", "Session expired");
+      return;
+    }
+    return completeAuth(ws, session.address, {
+      token: msg.sessionToken,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  const { message, signature } = msg;
+  if (message === undefined || signature === undefined) {
+    sendAuthFailed(ws, "INVALID_AUTH", "Invalid auth data");
+    return;
+  }
+
+  const fields = parseSiweMessage(message);
+  const domainAllowed =
+    (ws._originHost === undefined || fields.domain === ws._originHost) &&
+    (!SIWE_DOMAINS || SIWE_DOMAINS.includes(fields.domain));
+  if (
+    !fields.address ||
+    !isAddress(fields.address) ||
+    fields.chainId !== megaethTestnet.id ||
+    !domainAllowed ||
+    !validateSiweMessage({ message: fields, nonce })
+  ) {
+    sendAuthFailed(ws, "INVALID_AUTH", "Invalid sign-in message");
     return;
   }
 
   try {
-    const message = `MegaRally auth: ${nonce}`;
-    const valid = await verifyMessage({ address, message, signature });
+    // Signed by the player's wallet, or by a session key it delegated to
+    let signer = fields.address;
+    let expiresAt = Infinity;
+    if (msg.delegation !== undefined) {
+      if (!(await checkDelegation(msg.delegation, fields))) {
+        sendAuthFailed(ws, "INVALID_SESSION_KEY", "Invalid session key");
+        return;
+      }
+      signer = msg.delegation.sessionKey;
+      expiresAt = msg.delegation.expiresAt;
+    }
+
+    const valid = await verifyMessage({ address: signer, message, signature });
 
     if (!valid) {
-      ws.send(
-        JSON.stringify({ type: "AUTH_FAILED", message: "Invalid signature" })
-      );
+      sendAuthFailed(ws, "INVALID_SIGNATURE", "Invalid signature");
       return;
     }
 
-    delete ws._pendingNonce;
-    authenticatedClients.set(ws, { address: address.toLowerCase() });
-    ws.send(JSON.stringify({ type: "AUTH_OK", address }));
-    console.log("Authenticated:", address.slice(0, 10));
+    // Play is attributed to the wallet, whoever signed
+    const address = fields.address.toLowerCase();
+    const session = await sessions.create(address, expiresAt);
+    await completeAuth(ws, address, session);
   } catch (err) {
-    ws.send(
-      JSON.stringify({ type: "AUTH_FAILED", message: "Verification failed" })
-    );
+    sendAuthFailed(ws, "INVALID_SIGNATURE", "Verification failed");
   }
 }
 
+// The wallet in the sign-in message must have signed the delegation, for this
+// site, for operator play only, and it must not have expired
+async function checkDelegation(delegation, fields) {
+  const { sessionKey, domain, scope, expiresAt, signature } = delegation;
+  if (
+    !isAddress(sessionKey) ||
+    domain !== fields.domain ||
+    scope !== SESSION_KEY_SCOPE ||
+    expiresAt <= Date.now()
+  ) {
+    return false;
+  }
+  return verifyTypedData({
+    address: fields.address,
+    ...delegationTypedData(megaethTestnet.id, { sessionKey, domain, scope, expiresAt }),
+    signature,
+  });
+}
+
+async function completeAuth(ws, address, session) {
+  delete ws._pendingNonce;
+  authenticatedClients.set(ws, { address });
+  ws.send(
+    JSON.stringify({
+      type: "AUTH_OK",
+      address,
+      sessionToken: session.token,
+      sessionExpiresAt: session.expiresAt,
+    })
+  );
+  console.log("Authenticated:", address.slice(0, 10));
+  await notifyDeadLetters(ws, address);
+}
+
 // --- Fix 4: Preflight validation ---
 async function validatePlayerState(tournamentId, player) {
   try {
@@ -386,136 +816,486 @@ async function validatePlayerState(tournamentId, player) {
     if (entry.player === "0x0000000000000000000000000000000000000000") {
       return { ok: false, reason: "Not entered in tournament" };
     }
+    const attemptsUsed = lastAttemptNumber(tournamentId, player, Number(entry.attemptsUsed));
     const maxAttempts = Number(entry.tickets) * 3;
-    if (Number(entry.attemptsUsed) >= maxAttempts) {
+    if (attemptsUsed >= maxAttempts) {
       return { ok: false, reason: "No attempts left" };
     }
 
-    return { ok: true };
+    return { ok: true, attemptNumber: attemptsUsed + 1 };
   } catch (err) {
     console.error("Preflight check failed:", err.message);
     return { ok: false, reason: "Preflight check failed" };
   }
 }
 
-async function handleStartAttempt(tournamentId, player, ws) {
+// The chain's attemptsUsed, or higher while a score we've sent for this
+// player and tournament is still on its way onchain. Two attempts sharing a
+// number would both claim the same recordAttemptEnd.
+function lastAttemptNumber(tournamentId, player, attemptsUsed) {
+  let last = attemptsUsed;
+  for (const finished of finishedAttempts.values()) {
+    if (finished.player !== player || finished.tournamentId !== tournamentId) continue;
+    // A score the chain refused never used up its attempt
+    if (finished.reply?.type === "SCORE_FAILED") continue;
+    last = Math.max(last, finished.attemptNumber);
+  }
+  return last;
+}
+
+async function handleStartAttempt({ tournamentId, requestId }, player, ws) {
+  if (repeatStartAttempt(requestId, player, ws)) return;
   // Prevent overwriting an active game
   if (activeGames.has(player)) {
-    ws.send(
-      JSON.stringify({ type: "ERROR", message: "Game already in progress" })
-    );
+    sendError(ws, "GAME_IN_PROGRESS", "Game already in progress", { replyTo: "START_ATTEMPT" });
     return;
   }
 
   // Preflight validation
   const check = await validatePlayerState(tournamentId, player);
+  // Another START_ATTEMPT may have got in while we were checking
+  if (repeatStartAttempt(requestId, player, ws)) return;
+  if (activeGames.has(player)) {
+    sendError(ws, "GAME_IN_PROGRESS", "Game already in progress", { replyTo: "START_ATTEMPT" });
+    return;
+  }
   if (!check.ok) {
-    ws.send(
-      JSON.stringify({ type: "ERROR", message: check.reason })
-    );
+    sendError(ws, "NOT_ELIGIBLE", check.reason, { replyTo: "START_ATTEMPT" });
     return;
   }
 
-  activeGames.set(player, {
+  // The course is ours to choose — the browser only ever plays the seed we issue
+  const seed = crypto.randomBytes(4).readUInt32BE(0);
+  const game = {
+    attemptId: crypto.randomBytes(8).toString("hex"),
+    requestId, // the client's key for the START_ATTEMPT, so a retry finds this game
     tournamentId,
+    attemptNumber: check.attemptNumber, // which attempt recordAttemptEnd will close
+    seed,
+    schedule: obstacleSchedule(seed, Math.ceil(MAX_GAME_DURATION_MS / STEP_MS)),
     obstacles: [],
     obstacleIds: new Set(),
+    replies: new Map(), // seq -> the OBSTACLE_ACK/NACK it got
     ws,
     startTime: Date.now(),
-    lastObstacleTime: 0,
-  });
-
-  queueTx(async () => {
-    const hash = await walletClient.writeContract({
-      address: MEGARALLY_ADDRESS,
-      abi: MEGARALLY_ABI,
-      functionName: "startAttempt",
-      args: [BigInt(tournamentId), player],
-      gas: 500000n,
+    txHash: null,
+    lastSeq: 0,
+    lastBeatFrame: 0,
+    lastBeatAt: null, // set once the client has its seed
+    resumeToken: crypto.randomBytes(16).toString("hex"),
+    disconnectedAt: null,
+  };
+  activeGames.set(player, game);
+
+  // The seed goes out once the node has the tx; the run doesn't wait for a block
+  txManager
+    .send("startAttempt", [BigInt(tournamentId), player], {
+      onSubmitted: (hash) => {
+        console.log("startAttempt tx:", hash);
+        // The run starts when the client receives its seed
+        game.startTime = Date.now();
+        game.lastBeatAt = game.startTime;
+        game.txHash = hash;
+        game.ws?.send(JSON.stringify(attemptStartedMessage(game)));
+        saveGame(player, game);
+      },
+    })
+    .catch((err) => {
+      console.error("startAttempt failed:", err.message);
+      // Never submitted — free the slot so the player can try again. Once the
+      // client has its seed the run stands: startAttempt only emits an event.
+      if (game.lastBeatAt !== null) return;
+      if (activeGames.get(player) === game) activeGames.delete(player);
+      if (game.ws) {
+        sendError(game.ws, "START_FAILED", `Could not start attempt: ${err.message}`, {
+          replyTo: "START_ATTEMPT",
+        });
+      }
     });
-    console.log("startAttempt tx:", hash);
-    ws.send(JSON.stringify({ type: "ATTEMPT_STARTED", txHash: hash }));
+}
+
+// A START_ATTEMPT we've already acted on (the client retried it after a
+// reconnect) gets the original answer. Returns false for a new request.
+function repeatStartAttempt(requestId, player, ws) {
+  const game = activeGames.get(player);
+  if (game?.requestId === requestId) {
+    game.ws = ws;
+    game.disconnectedAt = null;
+    // Until the tx is submitted, onSubmitted answers on this socket
+    if (game.txHash) ws.send(JSON.stringify(attemptStartedMessage(game)));
+    return true;
+  }
+  for (const [attemptId, finished] of finishedAttempts) {
+    if (finished.player === player && finished.requestId === requestId) {
+      sendError(ws, "ATTEMPT_ENDED", "That attempt has already ended", {
+        replyTo: "START_ATTEMPT",
+        attemptId,
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+function attemptStartedMessage(game) {
+  return {
+    type: "ATTEMPT_STARTED",
+    attemptId: game.attemptId,
+    requestId: game.requestId,
+    txHash: game.txHash,
+    seed: game.seed,
+    resumeToken: game.resumeToken,
+  };
+}
+
+// The reply is kept against its seq so a resent report gets the same answer
+function sendObstacleReply(ws, game, reply) {
+  if (game) game.replies.set(reply.seq, reply);
+  ws.send(JSON.stringify(reply));
+}
+
+function sendObstacleNack(ws, msg, reason, game = null) {
+  sendObstacleReply(ws, game, {
+    type: "OBSTACLE_NACK",
+    attemptId: msg.attemptId,
+    obstacleId: msg.obstacleId,
+    seq: msg.seq,
+    reason,
   });
 }
 
-async function handleObstaclePassed(player, obstacleId) {
+// Every report gets an OBSTACLE_ACK or an OBSTACLE_NACK with the reason
+async function handleObstaclePassed(player, msg, ws) {
+  const { attemptId, obstacleId, frame, seq, at } = msg;
   const game = activeGames.get(player);
-  if (!game) return;
+  if (!game || game.ws !== ws || game.attemptId !== attemptId) {
+    return sendObstacleNack(ws, msg, NACK_REASONS.NO_GAME);
+  }
 
-  // Check game hasn't exceeded max duration
-  if (Date.now() - game.startTime > MAX_GAME_DURATION_MS) {
-    return;
+  const answered = game.replies.get(seq);
+  if (answered) return ws.send(JSON.stringify(answered));
+  if (!acceptSeq(game, seq)) return sendObstacleNack(ws, msg, NACK_REASONS.STALE_SEQ);
+
+  // The schema makes it an integer; obstacles are numbered from 1
+  if (obstacleId <= 0) {
+    return sendObstacleNack(ws, msg, NACK_REASONS.INVALID_ID, game);
   }
 
-  // Validate obstacleId is a positive integer
-  if (!Number.isInteger(obstacleId) || obstacleId <= 0) return;
+  // Must be on this course (which only runs to the max duration), passed on
+  // the frame the course says, and reachable in the time the run has had
+  const passFrame = game.schedule[obstacleId - 1];
+  if (passFrame === undefined) {
+    return sendObstacleNack(ws, msg, NACK_REASONS.NOT_ON_COURSE, game);
+  }
+  if (frame !== passFrame) return sendObstacleNack(ws, msg, NACK_REASONS.WRONG_FRAME, game);
+  if (aheadOfRealTime(game, frame, at)) {
+    return sendObstacleNack(ws, msg, NACK_REASONS.AHEAD_OF_TIME, game);
+  }
 
   // Dedup: ignore duplicate obstacle IDs
-  if (game.obstacleIds.has(obstacleId)) return;
-
-  // Rate limit: enforce minimum interval between obstacles
-  const now = Date.now();
-  if (game.lastObstacleTime && now - game.lastObstacleTime < MIN_OBSTACLE_INTERVAL_MS) {
-    return; // Too fast — silently drop
+  if (game.obstacleIds.has(obstacleId)) {
+    return sendObstacleNack(ws, msg, NACK_REASONS.DUPLICATE, game);
   }
 
   game.obstacleIds.add(obstacleId);
   game.obstacles.push(obstacleId);
-  game.lastObstacleTime = now;
+  saveGame(player, game);
+  sendObstacleReply(ws, game, { type: "OBSTACLE_ACK", attemptId, obstacleId, seq });
+
+  if (!LIVE_OBSTACLE_EVENTS) return;
+  txManager
+    .send("recordObstacle", [BigInt(game.tournamentId), player, BigInt(obstacleId)])
+    .then(({ hash }) => console.log("recordObstacle tx:", hash, "obstacle:", obstacleId))
+    .catch((err) => console.error("recordObstacle failed:", err.message));
+}
 
-  queueTx(async () => {
-    const hash = await walletClient.writeContract({
-      address: MEGARALLY_ADDRESS,
-      abi: MEGARALLY_ABI,
-      functionName: "recordObstacle",
-      args: [BigInt(game.tournamentId), player, BigInt(obstacleId)],
-      gas: 500000n,
+// Server-side score — the replay is re-simulated, the client's number is never trusted
+async function handleCrash(player, { attemptId, replay: replayText }, ws) {
+  const game = activeGames.get(player);
+  if (!game || game.ws !== ws || game.attemptId !== attemptId) {
+    // A resent CRASH for an attempt that has already ended gets its score
+    // (now, or once the tx settles) rather than ending anything again
+    const finished = finishedAttempts.get(attemptId);
+    if (finished?.player === player) {
+      if (finished.reply) ws.send(JSON.stringify(finished.reply));
+      else finished.ws = ws;
+      return;
+    }
+    sendError(ws, "NO_GAME", "No attempt in progress", { replyTo: "CRASH", attemptId });
+    return;
+  }
+
+  const verdict = verifyReplay(game, replayText);
+  if (verdict.status !== "verified") {
+    console.warn(
+      `[replay] ${verdict.status} for ${player.slice(0, 10)}: ${verdict.reason}`,
+      replayText ? `replay=${replayText}` : ""
+    );
+  }
+  endAttempt(player, game, verdict);
+}
+
+// Live progress from the client's game loop. Only the frame count matters:
+// it has to keep moving, and never faster than real time.
+function handleHeartbeat(player, { attemptId, frame, seq, at }, ws) {
+  const game = activeGames.get(player);
+  if (!game || game.ws !== ws || game.attemptId !== attemptId || game.lastBeatAt === null) {
+    return;
+  }
+  if (!acceptSeq(game, seq)) return;
+  if (frame <= game.lastBeatFrame) return;
+
+  if (aheadOfRealTime(game, frame, at)) {
+    console.warn(`[heartbeat] ${player.slice(0, 10)} ahead of real time at frame ${frame}`);
+    endAttempt(player, game, {
+      status: "rejected",
+      score: 0,
+      reason: "Game ran faster than real time",
     });
-    console.log("recordObstacle tx:", hash, "obstacle:", obstacleId);
-  });
+    return;
+  }
+
+  game.lastBeatFrame = frame;
+  game.lastBeatAt = Date.now();
 }
 
-// Server-side score — ignore client score entirely
-async function handleCrash(player) {
+// Reattach a reconnected client to the attempt it was playing
+function handleResume(player, token, ws) {
   const game = activeGames.get(player);
-  if (!game) return;
+  if (!game || token !== game.resumeToken) {
+    ws.send(JSON.stringify({ type: "RESUME_FAILED", message: "No attempt to resume" }));
+    return;
+  }
 
-  const elapsedMs = Date.now() - game.startTime;
-  const score = computeScore(game.obstacles.length, elapsedMs);
+  game.ws = ws;
+  game.disconnectedAt = null;
+  // The outage wasn't the game's fault — restart the heartbeat clock
+  game.lastBeatAt = Date.now();
+  console.log(`[resume] ${player.slice(0, 10)} back at frame ${game.lastBeatFrame}`);
+  ws.send(
+    JSON.stringify({
+      type: "RESUMED",
+      attemptId: game.attemptId,
+      seq: game.lastSeq,
+      obstacles: game.obstacles.length,
+    })
+  );
+}
+
+// Close the attempt onchain with the verdict's score and tell the player
+function endAttempt(player, game, verdict) {
   activeGames.delete(player);
+  const result = {
+    attemptId: game.attemptId,
+    requestId: game.requestId,
+    tournamentId: game.tournamentId,
+    player,
+    attemptNumber: game.attemptNumber,
+    score: verdict.score,
+    status: verdict.status,
+    reason: verdict.reason,
+    // Already onchain one by one in live mode; a rejected run gets no credit
+    obstacles: LIVE_OBSTACLE_EVENTS || verdict.status === "rejected" ? [] : game.obstacles,
+  };
+  trackFinished(result, game.ws);
+  // Until the score is onchain it lives in the store instead of the game
+  store.remove("games", player);
+  store.put("results", result.attemptId, result);
+  recordScore(result);
+}
 
-  queueTx(async () => {
-    try {
-      const hash = await walletClient.writeContract({
-        address: MEGARALLY_ADDRESS,
-        abi: MEGARALLY_ABI,
-        functionName: "recordAttemptEnd",
-        args: [BigInt(game.tournamentId), player, BigInt(score)],
-        gas: 500000n,
+// SCORE_RECORDED only once the tx is mined; a score the chain won't take goes
+// to the dead-letter collection and the player gets SCORE_FAILED with the reason
+function recordScore(result) {
+  const key = result.attemptId;
+  // Results restored on boot have nobody waiting yet
+  if (!finishedAttempts.has(key)) trackFinished(result, null);
+  const args = [BigInt(result.tournamentId), result.player, BigInt(result.score)];
+  const write = result.obstacles?.length
+    ? txManager.send(
+        "recordAttemptEndWithObstacles",
+        [...args, result.obstacles.map(BigInt)],
+        { key }
+      )
+    : txManager.send("recordAttemptEnd", args, { key });
+  write
+    .then(({ hash }) => {
+      console.log("recordAttemptEnd tx:", hash, "score:", result.score);
+      store.remove("results", key);
+      const reply = {
+        type: "SCORE_RECORDED",
+        attemptId: result.attemptId,
+        score: result.score,
+        txHash: hash,
+        status: result.status,
+        reason: result.reason,
+      };
+      settleAttempt(result, reply)?.send(JSON.stringify(reply));
+    })
+    .catch(async (err) => {
+      console.error(`[dead-letter] recordAttemptEnd failed for ${key}:`, err.message);
+      metrics.inc("megarally_dead_letters_total");
+      const reply = scoreFailedMessage(result, err.message);
+      const ws = settleAttempt(result, reply);
+      // Kept for a manual look rather than retried on every boot
+      await store.remove("results", key);
+      await store.put("deadLetters", key, {
+        ...result,
+        error: err.message,
+        failedAt: Date.now(),
+        notified: Boolean(ws),
       });
-      console.log("recordAttemptEnd tx:", hash, "score:", score);
-      game.ws?.send(
-        JSON.stringify({ type: "SCORE_RECORDED", score, txHash: hash })
-      );
+      ws?.send(JSON.stringify(reply));
+    });
+}
+
+function trackFinished(result, ws) {
+  finishedAttempts.set(result.attemptId, {
+    player: result.player,
+    requestId: result.requestId,
+    tournamentId: result.tournamentId,
+    attemptNumber: result.attemptNumber,
+    ws,
+    reply: null,
+    settledAt: null,
+  });
+}
+
+// Keep an ended attempt's reply for retries. Returns the socket waiting for
+// it, if it's still open.
+function settleAttempt(result, reply) {
+  const finished = finishedAttempts.get(result.attemptId);
+  if (!finished) return null;
+  finished.reply = reply;
+  finished.settledAt = Date.now();
+  const { ws } = finished;
+  return ws && ws.readyState === ws.OPEN ? ws : null;
+}
+
+function scoreFailedMessage(result, reason) {
+  return {
+    type: "SCORE_FAILED",
+    attemptId: result.attemptId,
+    tournamentId: result.tournamentId,
+    attemptNumber: result.attemptNumber,
+    score: result.score,
+    reason,
+  };
+}
+
+// Players who were gone when their score failed hear about it on next sign-in
+async function notifyDeadLetters(ws, address) {
+  for (const [key, letter] of await store.all("deadLetters")) {
+    if (letter.notified || letter.player !== address) continue;
+    ws.send(JSON.stringify(scoreFailedMessage(letter, letter.error)));
+    await store.put("deadLetters", key, { ...letter, notified: true });
+  }
+}
+
+// --- Session persistence ---
+// Persisted from ATTEMPT_STARTED on — before that the client has no seed and
+// there is nothing to resume. Sockets and derived lookups are rebuilt on load.
+function saveGame(player, game) {
+  return store.put("games", player, {
+    attemptId: game.attemptId,
+    requestId: game.requestId,
+    txHash: game.txHash,
+    tournamentId: game.tournamentId,
+    attemptNumber: game.attemptNumber,
+    seed: game.seed,
+    obstacles: game.obstacles,
+    startTime: game.startTime,
+    lastSeq: game.lastSeq,
+    lastBeatFrame: game.lastBeatFrame,
+    resumeToken: game.resumeToken,
+  });
+}
+
+function restoreGame(record) {
+  const now = Date.now();
+  return {
+    ...record,
+    attemptId: record.attemptId,
+    schedule: obstacleSchedule(record.seed, Math.ceil(MAX_GAME_DURATION_MS / STEP_MS)),
+    obstacleIds: new Set(record.obstacles),
+    replies: new Map(),
+    ws: null,
+    lastBeatAt: now,
+    disconnectedAt: now, // every client lost its socket when we went down
+  };
+}
+
+// recordAttemptEnd has no idempotency of its own, so check the chain first
+async function attemptRecorded(tournamentId, player, attemptNumber) {
+  const entry = await publicClient.readContract({
+    address: MEGARALLY_ADDRESS,
+    abi: MEGARALLY_ABI,
+    functionName: "getEntry",
+    args: [BigInt(tournamentId), player],
+  });
+  return Number(entry.attemptsUsed) >= attemptNumber;
+}
+
+// On boot: reload sign-in sessions, write scores that never made it onchain,
+// and give attempts that were in flight a resume window. Attempts nobody
+// resumes are closed by the sweeper like any other dropped connection.
+async function reconcileStore() {
+  await sessions.load();
+
+  for (const [key, result] of await store.all("results")) {
+    try {
+      if (await attemptRecorded(result.tournamentId, result.player, result.attemptNumber)) {
+        await store.remove("results", key);
+        continue;
+      }
+      console.log(`[reconcile] Re-recording score ${result.score} for ${result.player.slice(0, 10)}`);
+      recordScore(result);
     } catch (err) {
-      console.error("recordAttemptEnd failed:", err.message);
-      game.ws?.send(
-        JSON.stringify({ type: "ERROR", message: "Score recording failed" })
-      );
+      console.error(`[reconcile] Could not check ${key}:`, err.message);
     }
-  });
+  }
+
+  for (const [player, record] of await store.all("games")) {
+    try {
+      if (await attemptRecorded(record.tournamentId, player, record.attemptNumber)) {
+        await store.remove("games", player);
+        continue;
+      }
+      activeGames.set(player, restoreGame(record));
+      console.log(`[reconcile] Holding attempt ${record.attemptNumber} for ${player.slice(0, 10)} to resume`);
+    } catch (err) {
+      console.error(`[reconcile] Could not check game for ${player}:`, err.message);
+    }
+  }
 }
 
-// --- Game timeout: auto-crash stale games ---
+// --- Game timeout: auto-crash stale, silent and abandoned games; forget settled ones ---
 setInterval(() => {
   const now = Date.now();
   for (const [player, game] of activeGames.entries()) {
     if (now - game.startTime > MAX_GAME_DURATION_MS + 10000) {
       console.log(`[timeout] Auto-crashing stale game for ${player.slice(0, 10)}`);
-      handleCrash(player);
+      endAttempt(player, game, { status: "rejected", score: 0, reason: "Attempt timed out" });
+    } else if (game.disconnectedAt !== null) {
+      if (now - game.disconnectedAt > RESUME_GRACE_MS) {
+        console.log(`[timeout] ${player.slice(0, 10)} did not reconnect`);
+        endAttempt(player, game, { status: "rejected", score: 0, reason: "Connection lost" });
+      }
+    } else if (game.lastBeatAt !== null && now - game.lastBeatAt > HEARTBEAT_TIMEOUT_MS) {
+      console.log(`[timeout] No heartbeat from ${player.slice(0, 10)} since frame ${game.lastBeatFrame}`);
+      endAttempt(player, game, {
+        status: "rejected",
+        score: 0,
+        reason: "Game stopped responding",
+      });
     }
   }
-}, 30000);
+  for (const [attemptId, finished] of finishedAttempts.entries()) {
+    if (finished.settledAt !== null && now - finished.settledAt > FINISHED_ATTEMPT_TTL_MS) {
+      finishedAttempts.delete(attemptId);
+    }
+  }
+}, 5000);
 
 // --- Operator wallet balance monitoring ---
 const LOW_BALANCE_THRESHOLD = 0.005; // ETH — warn when below this
@@ -524,6 +1304,7 @@ async function checkOperatorBalance() {
   try {
     const balance = await publicClient.getBalance({ address: account.address });
     const ethBalance = Number(balance) / 1e18;
+    metrics.set("megarally_operator_balance_eth", ethBalance);
     if (ethBalance < LOW_BALANCE_THRESHOLD) {
       console.warn(
         `[WARN] Operator balance LOW: ${ethBalance.toFixed(6)} ETH — fund ${account.address}`
@@ -541,49 +1322,64 @@ checkOperatorBalance();
 setInterval(checkOperatorBalance, 5 * 60 * 1000);
 
 // --- Auto-end expired tournaments ---
-async function autoEndTournaments() {
-  try {
-    const count = await publicClient.readContract({
+function endTournament(id, endTime) {
+  console.log(`[auto-end] Ending tournament #${id} (expired at ${endTime})`);
+  txManager
+    .send("endTournament", [BigInt(id)], { key: `endTournament:${id}` })
+    .then(({ hash }) => console.log(`[auto-end] Tournament #${id} ended, tx: ${hash}`))
+    .catch((err) => console.error(`[auto-end] Tournament #${id} failed:`, err.message));
+}
+
+// Reads every tournament from the chain. Only used until the index has caught
+// up, which on a first boot can take a long backfill
+async function scanExpiredTournaments() {
+  const count = await publicClient.readContract({
+    address: MEGARALLY_ADDRESS,
+    abi: MEGARALLY_ABI,
+    functionName: "tournamentCount",
+  });
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  for (let i = 1; i <= Number(count); i++) {
+    const t = await publicClient.readContract({
       address: MEGARALLY_ADDRESS,
       abi: MEGARALLY_ABI,
-      functionName: "tournamentCount",
+      functionName: "tournaments",
+      args: [BigInt(i)],
     });
 
-    const now = BigInt(Math.floor(Date.now() / 1000));
+    const ended = t[6];
+    const endTime = t[3];
 
-    for (let i = 1; i <= Number(count); i++) {
-      const t = await publicClient.readContract({
-        address: MEGARALLY_ADDRESS,
-        abi: MEGARALLY_ABI,
-        functionName: "tournaments",
-        args: [BigInt(i)],
-      });
+    if (!ended && now >= endTime) endTournament(i, endTime);
+  }
+}
 
-      const ended = t[6];
-      const endTime = t[3];
-
-      if (!ended && now >= endTime) {
-        console.log(`[auto-end] Ending tournament #${i} (expired at ${endTime})`);
-        queueTx(async () => {
-          const hash = await walletClient.writeContract({
-            address: MEGARALLY_ADDRESS,
-            abi: MEGARALLY_ABI,
-            functionName: "endTournament",
-            args: [BigInt(i)],
-            gas: 500000n,
-          });
-          console.log(`[auto-end] Tournament #${i} ended, tx: ${hash}`);
-        });
-      }
+let scanningTournaments = false;
+
+async function autoEndTournaments() {
+  // Until it has caught up the index could miss tournaments or list ended
+  // ones, so fall back to reading them from the chain
+  if (!indexer.synced) {
+    if (scanningTournaments) return;
+    scanningTournaments = true;
+    try {
+      await scanExpiredTournaments();
+    } catch (err) {
+      console.error("[auto-end] Error:", err.message);
+    } finally {
+      scanningTournaments = false;
     }
-  } catch (err) {
-    console.error("[auto-end] Error:", err.message);
+    return;
   }
+
+  const now = Math.floor(Date.now() / 1000);
+  for (const t of indexer.expiredTournaments(now)) endTournament(t.id, t.endTime);
 }
 
-// Check on startup and every 30 seconds
-autoEndTournaments();
-setInterval(autoEndTournaments, 30000);
+// Check every 10 seconds — a lookup in the index once it's synced
+setInterval(autoEndTournaments, 10000);
 
 // --- Auto-withdraw operator fees ---
 async function autoWithdrawFees() {
@@ -598,15 +1394,10 @@ async function autoWithdrawFees() {
     if (pending > 0n) {
       const ethAmount = Number(pending) / 1e18;
       console.log(`[auto-withdraw] Claiming ${ethAmount.toFixed(6)} ETH in fees`);
-      queueTx(async () => {
-        const hash = await walletClient.writeContract({
-          address: MEGARALLY_ADDRESS,
-          abi: MEGARALLY_ABI,
-          functionName: "withdraw",
-          gas: 500000n,
-        });
-        console.log(`[auto-withdraw] Withdrawn, tx: ${hash}`);
-      });
+      txManager
+        .send("withdraw", [], { key: "withdraw" })
+        .then(({ hash }) => console.log(`[auto-withdraw] Withdrawn, tx: ${hash}`))
+        .catch((err) => console.error("[auto-withdraw] Failed:", err.message));
     }
   } catch (err) {
     console.error("[auto-withdraw] Error:", err.message);
@@ -617,5 +1408,6 @@ async function autoWithdrawFees() {
 autoWithdrawFees();
 setInterval(autoWithdrawFees, 5 * 60 * 1000);
 
-console.log(`Operator backend running on ws://localhost:${PORT}`);
+server.listen(PORT);
+console.log(`Operator backend running on ws://localhost:${PORT} (HTTP API on the same port)`);
 console.log(`Operator address: ${account.address}`);
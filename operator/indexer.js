@@ -0,0 +1,240 @@
+// MegaRally event indexer.
+// Follows the contract's events into a local copy of tournaments, entries and
+// withdrawal credits, so reads are one lookup instead of a getEntry per player
+// or a pass over every tournament ID.
+//
+// Reorgs: state is kept in two layers.
+//   - confirmed: events at least CONFIRMATIONS blocks deep, applied once and
+//     persisted along with the hash of the last block they cover
+//   - tip: the blocks above that, re-read on every poll and applied to a copy
+//     of the confirmed state, so a reorg near the head just changes what the
+//     next poll reads
+// If the persisted block hash stops matching the chain (a reorg deeper than
+// CONFIRMATIONS), the index is rebuilt from the start block.
+
+const CONFIRMATIONS = 10n;
+const POLL_INTERVAL_MS = 2000;
+const MAX_LOG_RANGE = 5000n; // blocks per getLogs call
+
+function emptyState(startBlock) {
+  return {
+    block: (startBlock - 1n).toString(), // last confirmed block applied
+    blockHash: null,
+    tournaments: {}, // id -> tournament
+    entries: {}, // `${tournamentId}:${player}` -> entry
+    credits: {}, // address -> wei credited and not yet withdrawn (as a string)
+  };
+}
+
+function entryKey(tournamentId, player) {
+  return `${tournamentId}:${player.toLowerCase()}`;
+}
+
+function credit(state, address, amount) {
+  const key = address.toLowerCase();
+  state.credits[key] = (BigInt(state.credits[key] || "0") + amount).toString();
+}
+
+// Amounts are kept as decimal strings so the state stays JSON
+function applyEvent(state, { eventName, args }) {
+  const id = args.tournamentId !== undefined ? Number(args.tournamentId) : null;
+  const t = id !== null ? state.tournaments[id] : null;
+
+  switch (eventName) {
+    case "TournamentCreated":
+      state.tournaments[id] = {
+        id,
+        entryFee: args.entryFee.toString(),
+        endTime: Number(args.endTime),
+        prizePool: "0",
+        ended: false,
+        cancelled: false,
+        winner: null,
+        players: [],
+      };
+      break;
+    case "PlayerEntered": {
+      const player = args.player.toLowerCase();
+      state.entries[entryKey(id, player)] = { tournamentId: id, player, tickets: 1, scores: [] };
+      if (t) {
+        t.players.push(player);
+        t.prizePool = (BigInt(t.prizePool) + BigInt(t.entryFee)).toString();
+      }
+      break;
+    }
+    case "TicketPurchased": {
+      const entry = state.entries[entryKey(id, args.player)];
+      if (entry) entry.tickets = Number(args.ticketNumber);
+      if (t) t.prizePool = (BigInt(t.prizePool) + BigInt(t.entryFee)).toString();
+      break;
+    }
+    case "AttemptEnded": {
+      const entry = state.entries[entryKey(id, args.player)];
+      if (entry) entry.scores[Number(args.attemptNumber) - 1] = Number(args.score);
+      break;
+    }
+    case "TournamentEnded":
+      if (t) {
+        t.ended = true;
+        t.winner = args.winner === "0x0000000000000000000000000000000000000000" ? null : args.winner.toLowerCase();
+      }
+      break;
+    case "TournamentCancelled":
+      if (t) {
+        t.ended = true;
+        t.cancelled = true;
+      }
+      break;
+    case "PrizePending":
+      credit(state, args.winner, args.amount);
+      break;
+    case "RefundPending":
+      credit(state, args.player, args.amount);
+      break;
+    case "Withdrawn":
+      delete state.credits[args.to.toLowerCase()];
+      break;
+  }
+}
+
+function summarizeEntry(entry) {
+  const scores = entry.scores.filter((s) => s !== undefined && s !== null);
+  return {
+    ...entry,
+    scores,
+    attemptsUsed: scores.length,
+    totalScore: scores.reduce((a, b) => a + b, 0),
+    bestScore: scores.reduce((a, b) => Math.max(a, b), 0),
+  };
+}
+
+export class Indexer {
+  constructor({ publicClient, address, abi, store, startBlock = 0n }) {
+    this.publicClient = publicClient;
+    this.contract = { address, abi };
+    this.store = store;
+    this.startBlock = startBlock;
+    this.state = emptyState(startBlock);
+    this.view = this.state; // confirmed + tip; what queries read
+    this.head = null;
+    this.synced = false; // caught up with the chain at least once
+    this.timer = null;
+  }
+
+  async start() {
+    const [[, saved] = []] = await this.store.all("indexer");
+    if (saved) {
+      this.state = saved;
+      this.view = saved;
+      console.log(`[indexer] Resuming after block ${saved.block}`);
+    }
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (err) {
+        console.error("[indexer] Poll failed:", err.shortMessage || err.message);
+      }
+      this.timer = setTimeout(tick, POLL_INTERVAL_MS);
+    };
+    tick();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+  }
+
+  async poll() {
+    const head = await this.publicClient.getBlockNumber();
+    const safe = head - CONFIRMATIONS;
+
+    if (this.state.blockHash) {
+      const block = await this.publicClient.getBlock({ blockNumber: BigInt(this.state.block) });
+      if (block.hash !== this.state.blockHash) {
+        console.warn(`[indexer] Block ${this.state.block} was reorged out — reindexing`);
+        this.state = emptyState(this.startBlock);
+      }
+    }
+
+    // Each chunk's events and block hash are both read before any of it is
+    // applied, so the block and its hash always move together and a failed
+    // call mid-catch-up keeps (and saves) every chunk before it
+    let confirmed = BigInt(this.state.block);
+    while (confirmed < safe) {
+      const to = confirmed + MAX_LOG_RANGE < safe ? confirmed + MAX_LOG_RANGE : safe;
+      const logs = await this.getEvents(confirmed + 1n, to);
+      const block = await this.publicClient.getBlock({ blockNumber: to });
+      for (const log of logs) applyEvent(this.state, log);
+      this.state.block = to.toString();
+      this.state.blockHash = block.hash;
+      await this.store.put("indexer", "state", this.state);
+      confirmed = to;
+    }
+
+    const view = structuredClone(this.state);
+    if (confirmed < head) {
+      for (const log of await this.getEvents(confirmed + 1n, head)) applyEvent(view, log);
+    }
+    this.view = view;
+    this.head = head;
+    this.synced = true;
+  }
+
+  getEvents(fromBlock, toBlock) {
+    return this.publicClient.getContractEvents({ ...this.contract, fromBlock, toBlock });
+  }
+
+  // --- Queries (read the latest view, tip included) ---
+
+  tournaments() {
+    return Object.values(this.view.tournaments);
+  }
+
+  tournament(id) {
+    return this.view.tournaments[id] ?? null;
+  }
+
+  entry(tournamentId, player) {
+    const entry = this.view.entries[entryKey(tournamentId, player)];
+    return entry ? summarizeEntry(entry) : null;
+  }
+
+  // Every entry in a tournament, in the order players joined
+  entries(tournamentId) {
+    const t = this.tournament(tournamentId);
+    return t ? t.players.map((p) => this.entry(tournamentId, p)) : [];
+  }
+
+  // A player's entries across all tournaments, newest tournament first
+  playerHistory(player) {
+    const key = player.toLowerCase();
+    return Object.values(this.view.entries)
+      .filter((e) => e.player === key)
+      .map(summarizeEntry)
+      .sort((a, b) => b.tournamentId - a.tournamentId);
+  }
+
+  // Whether every tournament is in the index. IDs count up from 1, so a gap
+  // means some were created before the start block
+  complete() {
+    const ids = Object.keys(this.view.tournaments).map(Number);
+    if (ids.length === 0) return this.startBlock === 0n;
+    return Math.max(...ids) === ids.length;
+  }
+
+  credit(address) {
+    return BigInt(this.view.credits[address.toLowerCase()] || "0");
+  }
+
+  // Past their end time but not ended yet (nowSec: unix seconds)
+  expiredTournaments(nowSec) {
+    return this.tournaments().filter((t) => !t.ended && t.endTime <= nowSec);
+  }
+
+  status() {
+    return {
+      synced: this.synced,
+      confirmedBlock: Number(this.state.block),
+      headBlock: this.head === null ? null : Number(this.head),
+    };
+  }
+}
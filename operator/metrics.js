@@ -0,0 +1,116 @@
+// Operator metrics: served at /metrics in Prometheus text format and shown on
+// the /status page. A handful of counters, gauges and one histogram don't
+// need a client library, so this is the whole implementation.
+
+const DEFAULT_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+function labelText(labels, extra = "") {
+  const parts = Object.entries(labels).map(
+    ([k, v]) => `${k}="${String(v).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  if (extra) parts.push(extra);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+export class Metrics {
+  constructor() {
+    this.metrics = new Map(); // name -> { type, help, series, collect?, buckets? }
+  }
+
+  counter(name, help) {
+    this.metrics.set(name, { type: "counter", help, series: new Map() });
+  }
+
+  // Counters without labels start at 0 rather than appearing on first use
+  unlabeledCounter(name, help) {
+    this.counter(name, help);
+    this.series(name, {});
+  }
+
+  // collect() is read at scrape time, for values that already live elsewhere
+  gauge(name, help, collect) {
+    this.metrics.set(name, { type: "gauge", help, series: new Map(), collect });
+  }
+
+  histogram(name, help, buckets = DEFAULT_BUCKETS) {
+    this.metrics.set(name, { type: "histogram", help, series: new Map(), buckets });
+  }
+
+  series(name, labels) {
+    const metric = this.metrics.get(name);
+    if (!metric) throw new Error(`Unknown metric ${name}`);
+    const key = labelText(labels);
+    if (!metric.series.has(key)) {
+      metric.series.set(
+        key,
+        metric.type === "histogram"
+          ? { labels, counts: metric.buckets.map(() => 0), sum: 0, count: 0 }
+          : { labels, value: 0 }
+      );
+    }
+    return metric.series.get(key);
+  }
+
+  inc(name, labels = {}, by = 1) {
+    this.series(name, labels).value += by;
+  }
+
+  set(name, value, labels = {}) {
+    this.series(name, labels).value = value;
+  }
+
+  observe(name, value, labels = {}) {
+    const metric = this.metrics.get(name);
+    const s = this.series(name, labels);
+    metric.buckets.forEach((le, i) => {
+      if (value <= le) s.counts[i]++;
+    });
+    s.sum += value;
+    s.count++;
+  }
+
+  collectAll() {
+    for (const [name, metric] of this.metrics) {
+      if (metric.collect) this.set(name, metric.collect());
+    }
+  }
+
+  // Prometheus text exposition format
+  render() {
+    this.collectAll();
+    const lines = [];
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+      for (const s of metric.series.values()) {
+        if (metric.type !== "histogram") {
+          lines.push(`${name}${labelText(s.labels)} ${s.value}`);
+          continue;
+        }
+        // Buckets are cumulative — each already counts everything at or below it
+        metric.buckets.forEach((le, i) => {
+          lines.push(`${name}_bucket${labelText(s.labels, `le="${le}"`)} ${s.counts[i]}`);
+        });
+        lines.push(`${name}_bucket${labelText(s.labels, 'le="+Inf"')} ${s.count}`);
+        lines.push(`${name}_sum${labelText(s.labels)} ${s.sum}`);
+        lines.push(`${name}_count${labelText(s.labels)} ${s.count}`);
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  // Flat rows for the status page; histograms are shown as count and average
+  snapshot() {
+    this.collectAll();
+    const rows = [];
+    for (const [name, metric] of this.metrics) {
+      for (const s of metric.series.values()) {
+        const value =
+          metric.type === "histogram"
+            ? `${s.count} (avg ${s.count ? (s.sum / s.count).toFixed(2) : "0"}s)`
+            : String(s.value);
+        rows.push({ name, help: metric.help, labels: labelText(s.labels), value });
+      }
+    }
+    return rows;
+  }
+}
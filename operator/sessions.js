@@ -0,0 +1,50 @@
+// Operator session tokens.
+// A successful Sign-In with Ethereum gets a token that later connections
+// present instead of a new signature, until it expires. Tokens are kept by
+// hash only, in memory and in the store, so a restart doesn't sign everyone
+// out and the store never holds a usable token.
+
+import crypto from "crypto";
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+export class Sessions {
+  constructor(store, ttlMs) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+    this.byHash = new Map(); // token hash -> { address, expiresAt }
+  }
+
+  // Load stored sessions, dropping the ones that have expired
+  async load() {
+    const now = Date.now();
+    for (const [hash, session] of await this.store.all("sessions")) {
+      if (session.expiresAt > now) this.byHash.set(hash, session);
+      else await this.store.remove("sessions", hash);
+    }
+  }
+
+  // expiresAt can be capped below the TTL, e.g. by a session key's delegation
+  async create(address, maxExpiresAt = Infinity) {
+    const token = crypto.randomBytes(32).toString("hex");
+    const session = { address, expiresAt: Math.min(Date.now() + this.ttlMs, maxExpiresAt) };
+    const hash = hashToken(token);
+    this.byHash.set(hash, session);
+    await this.store.put("sessions", hash, session);
+    return { token, expiresAt: session.expiresAt };
+  }
+
+  // The session for a token, or null if unknown or expired
+  get(token) {
+    if (typeof token !== "string") return null;
+    const hash = hashToken(token);
+    const session = this.byHash.get(hash);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.byHash.delete(hash);
+      this.store.remove("sessions", hash);
+      return null;
+    }
+    return session;
+  }
+}
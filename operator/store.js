@@ -0,0 +1,104 @@
+// Operator session store.
+// In-flight attempts and unsent scores are kept here as well as in memory, so
+// a deploy or crash doesn't strand attempts that have already started onchain.
+//
+// A store is any object with these async methods, over named collections of
+// JSON-serializable records:
+//   all(collection)              -> [key, value][]
+//   put(collection, key, value)
+//   remove(collection, key)
+//
+// Sign-in session tokens are stored too (hashed, see sessions.js). Which socket
+// is authenticated, and rate limits, are tied to a live connection or a
+// one-second window, so they are deliberately not stored — they mean nothing
+// after a restart.
+
+import fs from "fs/promises";
+import path from "path";
+
+// Everything in memory — for local runs where persistence doesn't matter
+export class MemoryStore {
+  constructor() {
+    this.data = {};
+  }
+
+  async all(collection) {
+    return Object.entries(this.data[collection] || {});
+  }
+
+  async put(collection, key, value) {
+    (this.data[collection] ||= {})[key] = value;
+  }
+
+  async remove(collection, key) {
+    delete this.data[collection]?.[key];
+  }
+}
+
+// Default: one JSON file, rewritten atomically (write + rename) on every change.
+// The data is a handful of records per live player, so whole-file writes are cheap.
+export class FileStore extends MemoryStore {
+  constructor(filePath) {
+    super();
+    this.filePath = filePath;
+    this.loaded = null;
+    this.writes = Promise.resolve();
+  }
+
+  load() {
+    this.loaded ||= fs
+      .readFile(this.filePath, "utf8")
+      .then((text) => {
+        this.data = JSON.parse(text);
+      })
+      .catch((err) => {
+        if (err.code !== "ENOENT") throw err;
+      });
+    return this.loaded;
+  }
+
+  async all(collection) {
+    await this.load();
+    return super.all(collection);
+  }
+
+  async put(collection, key, value) {
+    await this.load();
+    await super.put(collection, key, value);
+    return this.flush();
+  }
+
+  async remove(collection, key) {
+    await this.load();
+    await super.remove(collection, key);
+    return this.flush();
+  }
+
+  // Writes are serialized so an older snapshot never lands after a newer one
+  flush() {
+    const snapshot = JSON.stringify(this.data);
+    this.writes = this.writes
+      .then(async () => {
+        const tmp = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmp, snapshot);
+        await fs.rename(tmp, this.filePath);
+      })
+      .catch((err) => {
+        console.error("[store] write failed:", err.message);
+      });
+    return this.writes;
+  }
+}
+
+// OPERATOR_STORE=memory|file (default file, at STORE_PATH)
+export function createStore(kind, filePath) {
+  switch (kind) {
+    case "memory":
+      return new MemoryStore();
+    case "file":
+      return new FileStore(filePath);
+    default:
+      throw new Error(`Unknown OPERATOR_STORE "${kind}"`);
+  }
+}
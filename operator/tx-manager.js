@@ -0,0 +1,253 @@
+// Transaction manager for operator writes.
+// Submissions go through one queue, in nonce order; confirmations are awaited
+// outside it, so a slow block doesn't hold up everyone else's transaction.
+//   - nonces come from our own counter, synced from the chain at start and
+//     again after any failed send
+//   - a send is signed once and those same bytes are what gets resent, so a
+//     retry after a lost response can't become a second transaction
+//   - gas is estimated per call, which also catches reverts before paying for them
+//   - success means a receipt with status "success", not just a hash
+//   - a transaction not mined in time is re-sent at the same nonce with higher fees
+// Transient send errors are retried; everything else rejects with a readable reason.
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  NonceTooLowError,
+  WaitForTransactionReceiptTimeoutError,
+  encodeFunctionData,
+  keccak256,
+} from "viem";
+
+const GAS_BUFFER_PERCENT = 120n;
+const FEE_BUMP_PERCENT = 125n; // nodes want at least +10% to accept a replacement
+const MAX_FEE_BUMPS = 3;
+const RECEIPT_TIMEOUT_MS = 20000;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Best human-readable reason: the revert reason if there is one
+function reasonOf(err) {
+  if (err instanceof BaseError) {
+    const revert = err.walk((e) => e instanceof ContractFunctionRevertedError);
+    return revert?.reason || err.shortMessage;
+  }
+  return err.message;
+}
+
+function isRetryable(err) {
+  if (!(err instanceof BaseError)) return true;
+  return !err.walk(
+    (e) => e instanceof ContractFunctionRevertedError || e instanceof InsufficientFundsError
+  );
+}
+
+// Also "already known": the node has these exact bytes. viem only turns the
+// node's words into a NonceTooLowError for transactions it builds itself.
+function isNonceTooLow(err) {
+  if (!(err instanceof BaseError)) return false;
+  return (
+    Boolean(err.walk((e) => e instanceof NonceTooLowError)) ||
+    NonceTooLowError.nodeMessage.test(err.message)
+  );
+}
+
+export class TxManager {
+  // onSettled(functionName, ok, seconds) and onBump(functionName) are for metrics
+  constructor({ walletClient, publicClient, account, address, abi, onSettled, onBump }) {
+    this.walletClient = walletClient;
+    this.publicClient = publicClient;
+    this.account = account;
+    this.contract = { address, abi };
+    this.nonce = null; // next nonce to use; null = ask the chain
+    this.queue = Promise.resolve();
+    this.inFlight = new Map(); // key -> promise, so repeat requests share one tx
+    this.pending = 0;
+    this.onSettled = onSettled;
+    this.onBump = onBump;
+  }
+
+  // Transactions queued or waiting for a receipt
+  get depth() {
+    return this.pending;
+  }
+
+  /**
+   * Call a contract function and wait until it's mined.
+   * Resolves with { hash, receipt }; rejects with an Error whose message is the reason.
+   * opts.key — while a tx with this key is in flight, return it instead of sending another
+   * opts.onSubmitted(hash) — as soon as the node accepts it, before confirmation
+   */
+  send(functionName, args = [], { key, onSubmitted } = {}) {
+    if (key && this.inFlight.has(key)) return this.inFlight.get(key);
+
+    const request = { functionName, args };
+    const startedAt = Date.now();
+    const settled = (ok) => this.onSettled?.(functionName, ok, (Date.now() - startedAt) / 1000);
+    this.pending++;
+    const done = this.enqueue(() => this.submit(request))
+      .then((tx) => {
+        onSubmitted?.(tx.hash);
+        return this.confirm(request, tx);
+      })
+      .then(
+        (result) => {
+          settled(true);
+          return result;
+        },
+        (err) => {
+          settled(false);
+          throw err;
+        }
+      )
+      .finally(() => {
+        this.pending--;
+        if (key) this.inFlight.delete(key);
+      });
+    if (key) this.inFlight.set(key, done);
+    return done;
+  }
+
+  enqueue(fn) {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  async submit(request, attempt = 1) {
+    let gas;
+    try {
+      const estimate = await this.publicClient.estimateContractGas({
+        ...this.contract,
+        ...request,
+        account: this.account,
+      });
+      gas = (estimate * GAS_BUFFER_PERCENT) / 100n;
+    } catch (err) {
+      // It would revert — nothing to send
+      throw new Error(reasonOf(err));
+    }
+
+    let tx;
+    try {
+      const fees = await this.publicClient.estimateFeesPerGas();
+      if (this.nonce === null) {
+        this.nonce = await this.publicClient.getTransactionCount({
+          address: this.account.address,
+          blockTag: "pending",
+        });
+      }
+      tx = await this.sign(request, { nonce: this.nonce, gas, fees });
+    } catch (err) {
+      this.nonce = null;
+      if (attempt < MAX_SEND_ATTEMPTS && isRetryable(err)) {
+        console.warn(`[tx] ${request.functionName} send failed (${reasonOf(err)}), retrying`);
+        await sleep(RETRY_DELAY_MS * attempt);
+        return this.submit(request, attempt + 1);
+      }
+      throw new Error(reasonOf(err));
+    }
+
+    let sent;
+    try {
+      sent = await this.broadcast(request, tx);
+    } catch (err) {
+      // We can't be sure whether the nonce was used — ask the chain next time
+      this.nonce = null;
+      throw new Error(reasonOf(err));
+    }
+    if (!sent) {
+      // Our counter was behind the chain; nothing of ours went out, so sign again
+      this.nonce = null;
+      if (attempt < MAX_SEND_ATTEMPTS) return this.submit(request, attempt + 1);
+      throw new Error("Nonce already used");
+    }
+    this.nonce = tx.nonce + 1;
+    return tx;
+  }
+
+  async sign(request, { nonce, gas, fees }) {
+    const serialized = await this.walletClient.signTransaction({
+      to: this.contract.address,
+      data: encodeFunctionData({ abi: this.contract.abi, ...request }),
+      nonce,
+      gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+    return { hash: keccak256(serialized), serialized, nonce, gas, fees };
+  }
+
+  // Resends the same signed bytes, so after a lost response the node can only
+  // refuse the copy as already known (or its nonce as used, once mined).
+  // Resolves true once the node has it, or false if the very first send was
+  // refused for its nonce — then our counter was behind and nothing went out.
+  async broadcast(request, tx) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.walletClient.sendRawTransaction({ serializedTransaction: tx.serialized });
+        return true;
+      } catch (err) {
+        if (isNonceTooLow(err)) return attempt > 1;
+        if (attempt >= MAX_SEND_ATTEMPTS || !isRetryable(err)) throw err;
+        console.warn(`[tx] ${request.functionName} send failed (${reasonOf(err)}), resending`);
+        await sleep(RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  async confirm(request, tx) {
+    for (let bumps = 0; ; bumps++) {
+      let receipt;
+      try {
+        // Also resolves if an earlier version of this nonce is the one that got mined
+        receipt = await this.publicClient.waitForTransactionReceipt({
+          hash: tx.hash,
+          timeout: RECEIPT_TIMEOUT_MS,
+        });
+      } catch (err) {
+        if (!(err instanceof WaitForTransactionReceiptTimeoutError)) {
+          throw new Error(reasonOf(err));
+        }
+        if (bumps >= MAX_FEE_BUMPS) {
+          this.nonce = null;
+          throw new Error(`Not mined after ${MAX_FEE_BUMPS} fee bumps`);
+        }
+        tx = await this.enqueue(() => this.replace(request, tx));
+        continue;
+      }
+
+      if (receipt.status !== "success") {
+        throw new Error("Transaction reverted");
+      }
+      return { hash: receipt.transactionHash, receipt };
+    }
+  }
+
+  // Same nonce, higher fees — whichever version is mined settles it
+  async replace(request, tx) {
+    const fees = {
+      maxFeePerGas: (tx.fees.maxFeePerGas * FEE_BUMP_PERCENT) / 100n,
+      maxPriorityFeePerGas: (tx.fees.maxPriorityFeePerGas * FEE_BUMP_PERCENT) / 100n,
+    };
+    console.log(`[tx] ${request.functionName} not mined, bumping fees (nonce ${tx.nonce})`);
+    this.onBump?.(request.functionName);
+    try {
+      const hash = await this.walletClient.writeContract({
+        ...this.contract,
+        ...request,
+        nonce: tx.nonce,
+        gas: tx.gas,
+        ...fees,
+      });
+      return { ...tx, hash, fees };
+    } catch (err) {
+      // The original got mined meanwhile — go back to waiting on it
+      if (isNonceTooLow(err)) return tx;
+      throw new Error(reasonOf(err));
+    }
+  }
+}
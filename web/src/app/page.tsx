@@ -6,7 +6,11 @@ import { formatEther } from "viem";
 import dynamic from "next/dynamic";
 import Game from "@/components/Game";
 import HUD from "@/components/HUD";
+import ScoreFailureNotice from "@/components/ScoreFailureNotice";
 import WalletConnect from "@/components/WalletConnect";
+import OperatorStatusBadge from "@/components/OperatorStatusBadge";
+import { playBlockedReason } from "@/components/OperatorProvider";
+import { useTransactionToasts } from "@/components/TransactionToastProvider";
 import TournamentCard from "@/components/TournamentCard";
 import Leaderboard from "@/components/Leaderboard";
 
@@ -20,6 +24,8 @@ import {
 } from "@/hooks/useTournament";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
 import { useOperator } from "@/hooks/useGame";
+import type { Replay } from "@/shared/replay.mjs";
+import type { ScoreVerdict } from "@/lib/score-verdict";
 
 const ATTEMPTS_PER_TICKET = 3;
 
@@ -30,9 +36,12 @@ export default function Home() {
   const [view, setView] = useState<View>("lobby");
   const [scores, setScores] = useState<number[]>([]);
   const [currentAttempt, setCurrentAttempt] = useState(0);
-  const [totalScore, setTotalScore] = useState(0);
+  // Per attempt index, this session only — contract-synced scores are already final
+  const [verdicts, setVerdicts] = useState<Record<number, ScoreVerdict>>({});
   const [entering, setEntering] = useState(false);
   const [allDone, setAllDone] = useState(false);
+  // The contract's totalScore is the sum of its scores, so ours is too
+  const totalScore = scores.reduce((a, b) => a + b, 0);
 
   // Contract reads
   const activeTournamentId = useActiveTournamentId();
@@ -46,7 +55,19 @@ export default function Home() {
   } = useLeaderboard(activeTournamentId);
 
   const enterTournament = useEnterTournament();
-  const { startAttempt, obstaclePassed, crash } = useOperator();
+  const { track: trackTransaction } = useTransactionToasts();
+  const {
+    startAttempt,
+    obstaclePassed,
+    heartbeat,
+    crash,
+    obstacleCounts,
+    scoreFailures,
+    dismissScoreFailures,
+    status: operatorStatus,
+  } = useOperator();
+  // Without the operator a run can't start or score, so don't offer one
+  const playBlocked = playBlockedReason(operatorStatus);
 
   // Track entry state from contract
   const isEntered = entry ? entry.player !== "0x0000000000000000000000000000000000000000" : false;
@@ -63,8 +84,8 @@ export default function Home() {
       syncedRef.current = false;
       lastSyncedAttempts.current = -1;
       setScores([]);
+      setVerdicts({});
       setCurrentAttempt(0);
-      setTotalScore(0);
       setAllDone(false);
     }
   }, [activeTournamentId]);
@@ -82,7 +103,6 @@ export default function Home() {
         contractScores.push(Number(entry!.scores[i]));
       }
       setScores(contractScores);
-      setTotalScore(Number(entry!.totalScore));
       if (contractAttemptsUsed >= maxAttempts) {
         setAllDone(true);
       }
@@ -93,7 +113,9 @@ export default function Home() {
     if (!tournament) return;
     setEntering(true);
     try {
-      await enterTournament(activeTournamentId, tournament[1]); // entryFee
+      const hash = await enterTournament(activeTournamentId, tournament[1]); // entryFee
+      // The entry only shows up once it's mined
+      await trackTransaction(hash, "Tournament entry");
       await refetchEntry();
       // If buying additional ticket, reset allDone so player can play again
       setAllDone(false);
@@ -102,7 +124,7 @@ export default function Home() {
       console.error("Enter failed:", err);
     }
     setEntering(false);
-  }, [tournament, enterTournament, refetchEntry]);
+  }, [tournament, enterTournament, trackTransaction, refetchEntry]);
 
   const handlePlay = useCallback(async () => {
     await refetchEntry();
@@ -113,30 +135,57 @@ export default function Home() {
     // Real-time score updates happen in Game component
   }, []);
 
-  const handleStart = useCallback(() => {
+  const handleStart = useCallback(async () => {
     if (address) {
-      startAttempt(activeTournamentId);
+      return startAttempt(activeTournamentId);
     }
   }, [address, startAttempt, activeTournamentId]);
 
   const handleObstaclePassed = useCallback(
-    (obstacleId: number) => {
+    (obstacleId: number, frame: number) => {
       if (address) {
-        obstaclePassed(obstacleId);
+        obstaclePassed(obstacleId, frame);
       }
     },
     [address, obstaclePassed]
   );
 
+  const handleHeartbeat = useCallback(
+    (frame: number) => {
+      if (address) {
+        heartbeat(frame);
+      }
+    },
+    [address, heartbeat]
+  );
+
   const handleGameOver = useCallback(
-    (score: number) => {
+    (score: number, replay: Replay) => {
       if (address) {
-        crash();
+        const attempt = currentAttempt;
+        setVerdicts((v) => ({
+          ...v,
+          [attempt]: { status: "pending", localScore: score },
+        }));
+        crash(replay)
+          .then((record) => {
+            setVerdicts((v) => ({
+              ...v,
+              [attempt]: { ...record, localScore: score },
+            }));
+            // Swap in the score that was actually recorded
+            setScores((prev) =>
+              prev.map((s, i) => (i === attempt ? record.score : s))
+            );
+          })
+          .catch((err: Error) => {
+            setVerdicts((v) => ({
+              ...v,
+              [attempt]: { status: "failed", localScore: score, reason: err.message },
+            }));
+          });
       }
-      const newScores = [...scores, score];
-      setScores(newScores);
-      const newTotal = newScores.reduce((a, b) => a + b, 0);
-      setTotalScore(newTotal);
+      setScores([...scores, score]);
       const nextAttempt = currentAttempt + 1;
       setCurrentAttempt(nextAttempt);
       if (nextAttempt >= maxAttempts) {
@@ -158,7 +207,6 @@ export default function Home() {
   const handleReset = useCallback(() => {
     setScores([]);
     setCurrentAttempt(0);
-    setTotalScore(0);
     setAllDone(false);
   }, []);
 
@@ -197,7 +245,10 @@ export default function Home() {
               FLUFFLE DASH
             </span>
           </div>
-          <WalletConnect />
+          <div className="flex items-center gap-3">
+            <OperatorStatusBadge />
+            <WalletConnect />
+          </div>
         </header>
 
         {/* HUD */}
@@ -207,11 +258,17 @@ export default function Home() {
             currentAttempt={currentAttempt}
             maxAttempts={maxAttempts}
             totalScore={totalScore}
+            verdicts={verdicts}
             currentTicket={currentTicket}
             ticketCount={tickets}
           />
         </div>
 
+        <ScoreFailureNotice
+          failures={scoreFailures}
+          onDismiss={dismissScoreFailures}
+        />
+
         {/* Game */}
         <div className="flex-1 flex items-center justify-center p-1 md:p-4 min-h-0">
           <div className="w-full h-full max-w-4xl">
@@ -221,7 +278,10 @@ export default function Home() {
               onScoreChange={handleScoreChange}
               onGameOver={handleGameOver}
               onObstaclePassed={handleObstaclePassed}
+              onHeartbeat={handleHeartbeat}
               onStart={handleStart}
+              verdict={verdicts[currentAttempt - 1]}
+              obstacleCounts={address ? obstacleCounts : undefined}
             />
           </div>
         </div>
@@ -322,7 +382,10 @@ export default function Home() {
         >
           FLUFFLE DASH
         </span>
-        <WalletConnect />
+        <div className="flex items-center gap-3">
+          <OperatorStatusBadge />
+          <WalletConnect />
+        </div>
       </header>
 
       {/* ===== HERO SECTION ===== */}
@@ -373,15 +436,23 @@ export default function Home() {
                 {entering ? "ENTERING..." : `ENTER TOURNAMENT (${tournamentData ? formatEther(tournamentData.entryFee) : "0.01"} ETH)`}
               </button>
             ) : contractAttemptsUsed < maxAttempts ? (
-              <button
-                onClick={() => setView("game")}
-                className="px-8 py-3 rounded-lg font-bold text-black text-base transition-all hover:scale-105"
-                style={{
-                  background: "linear-gradient(135deg, #ffe814, #ff2d95)",
-                }}
-              >
-                PLAY NOW
-              </button>
+              <div className="flex flex-col items-center gap-2">
+                <button
+                  onClick={() => setView("game")}
+                  disabled={playBlocked !== null}
+                  className="px-8 py-3 rounded-lg font-bold text-black text-base transition-all hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+                  style={{
+                    background: "linear-gradient(135deg, #ffe814, #ff2d95)",
+                  }}
+                >
+                  PLAY NOW
+                </button>
+                {playBlocked && (
+                  <p className="text-xs" style={{ color: "#ffe814" }}>
+                    {playBlocked}
+                  </p>
+                )}
+              </div>
             ) : (
               <button
                 onClick={handleEnter}
@@ -424,6 +495,7 @@ export default function Home() {
                 hasAttemptsLeft={contractAttemptsUsed < maxAttempts}
                 onEnter={handleEnter}
                 onPlay={handlePlay}
+                playBlockedReason={playBlocked}
                 entering={entering}
               />
 
@@ -5,11 +5,15 @@ import { useCallback, useState, useEffect, useRef } from "react";
 import { useAccount } from "wagmi";
 import Game from "@/components/Game";
 import HUD from "@/components/HUD";
+import ScoreFailureNotice from "@/components/ScoreFailureNotice";
 import WalletConnect from "@/components/WalletConnect";
+import OperatorStatusBadge from "@/components/OperatorStatusBadge";
 import Leaderboard from "@/components/Leaderboard";
 import { useEntry } from "@/hooks/useTournament";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
 import { useOperator } from "@/hooks/useGame";
+import type { Replay } from "@/shared/replay.mjs";
+import type { ScoreVerdict } from "@/lib/score-verdict";
 
 const ATTEMPTS_PER_TICKET = 3;
 
@@ -21,13 +25,24 @@ export default function PlayPage() {
 
   const [scores, setScores] = useState<number[]>([]);
   const [currentAttempt, setCurrentAttempt] = useState(0);
-  const [totalScore, setTotalScore] = useState(0);
+  // Per attempt index, this session only — contract-synced scores are already final
+  const [verdicts, setVerdicts] = useState<Record<number, ScoreVerdict>>({});
   const [allDone, setAllDone] = useState(false);
+  // The contract's totalScore is the sum of its scores, so ours is too
+  const totalScore = scores.reduce((a, b) => a + b, 0);
 
   const { data: entry } = useEntry(tournamentId);
   const { entries: leaderboard, refetch: refetchLeaderboard } =
     useLeaderboard(tournamentId);
-  const { startAttempt, obstaclePassed, crash } = useOperator();
+  const {
+    startAttempt,
+    obstaclePassed,
+    heartbeat,
+    crash,
+    obstacleCounts,
+    scoreFailures,
+    dismissScoreFailures,
+  } = useOperator();
 
   const contractAttemptsUsed = entry ? Number(entry.attemptsUsed) : 0;
   const tickets = entry ? Number(entry.tickets) : 1;
@@ -49,37 +64,63 @@ export default function PlayPage() {
         contractScores.push(Number(entry.scores[i]));
       }
       setScores(contractScores);
-      setTotalScore(Number(entry.totalScore));
       if (contractAttemptsUsed >= maxAttempts) {
         setAllDone(true);
       }
     }
   }, [entry, contractAttemptsUsed, maxAttempts]);
 
-  const handleStart = useCallback(() => {
+  const handleStart = useCallback(async () => {
     if (address) {
-      startAttempt(tournamentId);
+      return startAttempt(tournamentId);
     }
   }, [address, tournamentId, startAttempt]);
 
   const handleObstaclePassed = useCallback(
-    (obstacleId: number) => {
+    (obstacleId: number, frame: number) => {
       if (address) {
-        obstaclePassed(obstacleId);
+        obstaclePassed(obstacleId, frame);
       }
     },
     [address, obstaclePassed]
   );
 
+  const handleHeartbeat = useCallback(
+    (frame: number) => {
+      if (address) {
+        heartbeat(frame);
+      }
+    },
+    [address, heartbeat]
+  );
+
   const handleGameOver = useCallback(
-    (score: number) => {
+    (score: number, replay: Replay) => {
       if (address) {
-        crash();
+        const attempt = currentAttempt;
+        setVerdicts((v) => ({
+          ...v,
+          [attempt]: { status: "pending", localScore: score },
+        }));
+        crash(replay)
+          .then((record) => {
+            setVerdicts((v) => ({
+              ...v,
+              [attempt]: { ...record, localScore: score },
+            }));
+            // Swap in the score that was actually recorded
+            setScores((prev) =>
+              prev.map((s, i) => (i === attempt ? record.score : s))
+            );
+          })
+          .catch((err: Error) => {
+            setVerdicts((v) => ({
+              ...v,
+              [attempt]: { status: "failed", localScore: score, reason: err.message },
+            }));
+          });
       }
-      const newScores = [...scores, score];
-      setScores(newScores);
-      const newTotal = newScores.reduce((a, b) => a + b, 0);
-      setTotalScore(newTotal);
+      setScores([...scores, score]);
       const nextAttempt = currentAttempt + 1;
       setCurrentAttempt(nextAttempt);
       if (nextAttempt >= maxAttempts) {
@@ -110,7 +151,10 @@ export default function PlayPage() {
             Tournament #{tournamentId}
           </span>
         </div>
-        <WalletConnect />
+        <div className="flex items-center gap-3">
+          <OperatorStatusBadge />
+          <WalletConnect />
+        </div>
       </header>
 
       <div className="shrink-0">
@@ -119,11 +163,17 @@ export default function PlayPage() {
           currentAttempt={currentAttempt}
           maxAttempts={maxAttempts}
           totalScore={totalScore}
+          verdicts={verdicts}
           currentTicket={currentTicket}
           ticketCount={tickets}
         />
       </div>
 
+      <ScoreFailureNotice
+        failures={scoreFailures}
+        onDismiss={dismissScoreFailures}
+      />
+
       <div className="flex-1 flex items-center justify-center p-1 md:p-4 min-h-0">
         <div className="w-full h-full max-w-4xl">
           <Game
@@ -132,7 +182,10 @@ export default function PlayPage() {
             onScoreChange={() => {}}
             onGameOver={handleGameOver}
             onObstaclePassed={handleObstaclePassed}
+            onHeartbeat={handleHeartbeat}
             onStart={handleStart}
+            verdict={verdicts[currentAttempt - 1]}
+            obstacleCounts={address ? obstacleCounts : undefined}
           />
         </div>
       </div>
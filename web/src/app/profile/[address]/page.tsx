@@ -6,6 +6,8 @@ import { useAccount } from "wagmi";
 import { formatEther } from "viem";
 import Link from "next/link";
 import WalletConnect from "@/components/WalletConnect";
+import OperatorStatusBadge from "@/components/OperatorStatusBadge";
+import { useTransactionToasts } from "@/components/TransactionToastProvider";
 import { usePlayerHistory } from "@/hooks/usePlayerHistory";
 import type { TournamentHistoryEntry } from "@/hooks/usePlayerHistory";
 import { usePendingWithdrawal, useWithdraw } from "@/hooks/useWithdraw";
@@ -24,6 +26,7 @@ export default function ProfilePage() {
   const { data: pendingAmount, refetch: refetchPending } =
     usePendingWithdrawal(profileAddress);
   const withdraw = useWithdraw();
+  const { track: trackTransaction } = useTransactionToasts();
   const [withdrawing, setWithdrawing] = useState(false);
   const [withdrawSuccess, setWithdrawSuccess] = useState(false);
 
@@ -34,7 +37,8 @@ export default function ProfilePage() {
     try {
       setWithdrawing(true);
       setWithdrawSuccess(false);
-      await withdraw();
+      const hash = await withdraw();
+      await trackTransaction(hash, "Withdrawal");
       setWithdrawSuccess(true);
       refetchPending();
     } catch (err) {
@@ -67,7 +71,10 @@ export default function ProfilePage() {
         >
           &larr; MEGA RALLY
         </Link>
-        <WalletConnect />
+        <div className="flex items-center gap-3">
+          <OperatorStatusBadge />
+          <WalletConnect />
+        </div>
       </header>
 
       <main className="max-w-2xl mx-auto px-4 pt-20 pb-12">
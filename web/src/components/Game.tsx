@@ -2,14 +2,25 @@
 
 import { useRef, useEffect, useCallback, useState } from "react";
 import { GameEngine, GameCallbacks } from "@/lib/game-engine";
+import type { Replay } from "@/shared/replay.mjs";
+import type { ObstacleCounts } from "@/hooks/useGame";
+import {
+  describeVerdict,
+  displayScore,
+  type ScoreVerdict,
+} from "@/lib/score-verdict";
 
 interface GameProps {
   attemptNumber: number;
   maxAttempts: number;
   onScoreChange: (score: number) => void;
-  onGameOver: (score: number) => void;
-  onObstaclePassed: (obstacleId: number) => void;
-  onStart: () => void;
+  onGameOver: (score: number, replay: Replay) => void;
+  onObstaclePassed: (obstacleId: number, frame: number) => void;
+  onHeartbeat: (frame: number) => void;
+  // Resolves with the course seed; undefined plays a random course
+  onStart: () => Promise<number | undefined>;
+  verdict?: ScoreVerdict; // for the attempt that just ended
+  obstacleCounts?: ObstacleCounts; // operator's live verdicts for this run
 }
 
 export default function Game({
@@ -18,19 +29,33 @@ export default function Game({
   onScoreChange,
   onGameOver,
   onObstaclePassed,
+  onHeartbeat,
   onStart,
+  verdict,
+  obstacleCounts,
 }: GameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const engineRef = useRef<GameEngine | null>(null);
   const scoreRef = useRef<HTMLSpanElement>(null);
-  const [gameState, setGameState] = useState<"idle" | "playing" | "dead">(
-    "idle"
-  );
+  const [gameState, setGameState] = useState<
+    "idle" | "starting" | "playing" | "dead"
+  >("idle");
   const [finalScore, setFinalScore] = useState(0);
+  const [startError, setStartError] = useState<string | null>(null);
 
   // Store callbacks in refs so engine never needs to be recreated
-  const callbackRefs = useRef({ onGameOver, onScoreChange, onObstaclePassed });
-  callbackRefs.current = { onGameOver, onScoreChange, onObstaclePassed };
+  const callbackRefs = useRef({
+    onGameOver,
+    onScoreChange,
+    onObstaclePassed,
+    onHeartbeat,
+  });
+  callbackRefs.current = {
+    onGameOver,
+    onScoreChange,
+    onObstaclePassed,
+    onHeartbeat,
+  };
 
   // Initialize engine — only depends on canvas mount, never recreated
   useEffect(() => {
@@ -45,13 +70,16 @@ export default function Game({
         }
         callbackRefs.current.onScoreChange(newScore);
       },
-      onGameOver: (score: number) => {
+      onGameOver: (score: number, replay: Replay) => {
         setFinalScore(score);
         setGameState("dead");
-        callbackRefs.current.onGameOver(score);
+        callbackRefs.current.onGameOver(score, replay);
+      },
+      onObstaclePassed: (id: number, frame: number) => {
+        callbackRefs.current.onObstaclePassed(id, frame);
       },
-      onObstaclePassed: (id: number) => {
-        callbackRefs.current.onObstaclePassed(id);
+      onHeartbeat: (frame: number) => {
+        callbackRefs.current.onHeartbeat(frame);
       },
     };
 
@@ -81,16 +109,44 @@ export default function Game({
       engine.resize(Math.round(w), Math.round(h));
     };
 
+    // A hidden tab stops requestAnimationFrame and freezes the run, which the
+    // operator can't tell from a stalled client — end it with what it scored
+    const onVisibilityChange = () => {
+      if (document.hidden) engine.forfeit();
+    };
+
     resize();
     window.addEventListener("resize", resize);
+    document.addEventListener("visibilitychange", onVisibilityChange);
     engine.renderIdle();
 
     return () => {
       window.removeEventListener("resize", resize);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
       engine.stop();
     };
   }, []);
 
+  // Wait for the course seed, then run
+  const begin = useCallback(
+    (engine: GameEngine, from: "idle" | "dead") => {
+      setGameState("starting");
+      setStartError(null);
+      onStart()
+        .then((seed) => {
+          setGameState("playing");
+          if (scoreRef.current) scoreRef.current.textContent = "0";
+          engine.start(seed);
+          setTimeout(() => engine.jump(), 50);
+        })
+        .catch((err: Error) => {
+          setStartError(err.message);
+          setGameState(from);
+        });
+    },
+    [onStart]
+  );
+
   // Handle input
   const handleInput = useCallback(() => {
     const engine = engineRef.current;
@@ -98,23 +154,15 @@ export default function Game({
 
     if (gameState === "idle") {
       if (attemptNumber >= maxAttempts) return; // No attempts left
-      setGameState("playing");
-      if (scoreRef.current) scoreRef.current.textContent = "0";
-      engine.start();
-      onStart();
-      setTimeout(() => engine.jump(), 50);
+      begin(engine, "idle");
     } else if (gameState === "playing") {
       engine.jump();
     } else if (gameState === "dead") {
       if (attemptNumber < maxAttempts) {
-        setGameState("playing");
-        if (scoreRef.current) scoreRef.current.textContent = "0";
-        engine.start();
-        onStart();
-        setTimeout(() => engine.jump(), 50);
+        begin(engine, "dead");
       }
     }
-  }, [gameState, attemptNumber, maxAttempts, onStart]);
+  }, [gameState, attemptNumber, maxAttempts, begin]);
 
   // Keyboard
   useEffect(() => {
@@ -159,6 +207,22 @@ export default function Game({
           >
             TAP TO START
           </p>
+          {startError && (
+            <p className="text-sm mt-3" style={{ color: "#ffe814" }}>
+              {startError}
+            </p>
+          )}
+        </div>
+      )}
+
+      {gameState === "starting" && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+          <p
+            className="text-lg md:text-xl animate-pulse"
+            style={{ color: "#00f0ff" }}
+          >
+            STARTING ATTEMPT...
+          </p>
         </div>
       )}
 
@@ -184,8 +248,23 @@ export default function Game({
                 textShadow: "0 0 15px #00f0ff",
               }}
             >
-              {finalScore}
+              {verdict ? displayScore(verdict) : finalScore}
             </p>
+            {verdict && (
+              <p
+                className={`text-xs md:text-sm mb-4 -mt-2 ${
+                  verdict.status === "pending" ? "animate-pulse" : ""
+                }`}
+                style={{
+                  color:
+                    verdict.status === "pending" || verdict.status === "verified"
+                      ? "#9ca3af"
+                      : "#ffe814",
+                }}
+              >
+                {describeVerdict(verdict)}
+              </p>
+            )}
             {attemptNumber < maxAttempts ? (
               <p
                 className="text-base md:text-lg animate-pulse"
@@ -198,6 +277,11 @@ export default function Game({
                 NO ATTEMPTS LEFT
               </p>
             )}
+            {startError && (
+              <p className="text-sm mt-3" style={{ color: "#ffe814" }}>
+                {startError}
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -215,6 +299,18 @@ export default function Game({
           >
             0
           </span>
+          {obstacleCounts && (
+            <div className="text-right text-xs md:text-sm tabular-nums">
+              <span style={{ color: "#00f0ff" }}>
+                {obstacleCounts.verified} verified
+              </span>
+              {obstacleCounts.rejected > 0 && (
+                <span className="ml-2" style={{ color: "#ffe814" }}>
+                  {obstacleCounts.rejected} rejected
+                </span>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -17,6 +17,7 @@ export default function GameDemo() {
       onScoreChange: noop,
       onGameOver: noop,
       onObstaclePassed: noop,
+      onHeartbeat: noop,
     });
     engineRef.current = engine;
 
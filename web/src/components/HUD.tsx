@@ -1,5 +1,7 @@
 "use client";
 
+import { describeVerdict, type ScoreVerdict } from "@/lib/score-verdict";
+
 const ATTEMPTS_PER_TICKET = 3;
 
 interface HUDProps {
@@ -9,6 +11,7 @@ interface HUDProps {
   totalScore: number;
   currentTicket: number; // 1-indexed
   ticketCount: number;
+  verdicts?: Record<number, ScoreVerdict>; // attempts finished this session
 }
 
 export default function HUD({
@@ -18,7 +21,10 @@ export default function HUD({
   totalScore,
   currentTicket,
   ticketCount,
+  verdicts = {},
 }: HUDProps) {
+  const pending = Object.values(verdicts).some((v) => v.status === "pending");
+
   // Build ticket groups
   const ticketGroups: { ticket: number; startIdx: number }[] = [];
   for (let t = 0; t < ticketCount; t++) {
@@ -71,9 +77,7 @@ export default function HUD({
                       }`}
                     />
                     {scores[idx] !== undefined && (
-                      <span className="text-xs text-gray-400 tabular-nums">
-                        {scores[idx]}
-                      </span>
+                      <AttemptScore score={scores[idx]} verdict={verdicts[idx]} />
                     )}
                   </div>
                 );
@@ -96,7 +100,7 @@ export default function HUD({
       {/* Total */}
       <div className="flex items-center gap-2">
         <span className="text-xs text-gray-500 uppercase tracking-wider">
-          Total
+          {pending ? "Verifying..." : "Total"}
         </span>
         <span
           className="text-xl font-bold tabular-nums"
@@ -111,3 +115,37 @@ export default function HUD({
     </div>
   );
 }
+
+// Attempt score with a marker for where it stands onchain; hover for details
+function AttemptScore({
+  score,
+  verdict,
+}: {
+  score: number;
+  verdict?: ScoreVerdict;
+}) {
+  if (!verdict) {
+    return <span className="text-xs text-gray-400 tabular-nums">{score}</span>;
+  }
+
+  const marker =
+    verdict.status === "pending"
+      ? { text: "…", color: "#6b7280" }
+      : verdict.status === "verified"
+        ? { text: "✓", color: "#00f0ff" }
+        : { text: "!", color: "#ffe814" };
+
+  return (
+    <span
+      className={`text-xs tabular-nums ${
+        verdict.status === "pending" ? "text-gray-600 animate-pulse" : "text-gray-400"
+      }`}
+      title={describeVerdict(verdict)}
+    >
+      {score}
+      <span className="ml-0.5" style={{ color: marker.color }}>
+        {marker.text}
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { useAccount, useSignTypedData } from "wagmi";
+import { OperatorClient, type OperatorStatus } from "@/lib/operator-client";
+
+const OPERATOR_URL =
+  process.env.NEXT_PUBLIC_OPERATOR_URL || "wss://operator-production-4127.up.railway.app";
+
+interface OperatorContextValue {
+  client: OperatorClient;
+  status: OperatorStatus;
+}
+
+const OperatorContext = createContext<OperatorContextValue | null>(null);
+
+// One operator connection for the whole app. It stays open across pages and
+// wallet changes; switching wallets only re-authenticates it.
+export default function OperatorProvider({ children }: { children: React.ReactNode }) {
+  const [client] = useState(() => new OperatorClient(OPERATOR_URL));
+  const [status, setStatus] = useState<OperatorStatus>(() => client.getStatus());
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+
+  // Keep signTypedDataAsync in a ref so a new function doesn't re-authenticate
+  const signRef = useRef(signTypedDataAsync);
+  useEffect(() => {
+    signRef.current = signTypedDataAsync;
+  }, [signTypedDataAsync]);
+
+  useEffect(() => {
+    const unsubscribe = client.onStatusChange(setStatus);
+    client.connect();
+    return () => {
+      unsubscribe();
+      client.disconnect();
+    };
+  }, [client]);
+
+  useEffect(() => {
+    client.setAuth(address ?? null, address ? (args) => signRef.current(args) : null);
+  }, [client, address]);
+
+  return (
+    <OperatorContext.Provider value={{ client, status }}>{children}</OperatorContext.Provider>
+  );
+}
+
+export function useOperatorConnection(): OperatorContextValue {
+  const value = useContext(OperatorContext);
+  if (!value) throw new Error("useOperatorConnection must be used inside OperatorProvider");
+  return value;
+}
+
+// Why a run can't start right now, or null if the operator is there to take it
+export function playBlockedReason(status: OperatorStatus): string | null {
+  if (status.versionMismatch) return "Game version out of date — reload the page";
+  if (status.connected) return null;
+  if (status.gaveUp) return "Can't reach the game server — hit Retry at the top of the page";
+  return "Connecting to the game server…";
+}
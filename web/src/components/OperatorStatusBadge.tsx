@@ -0,0 +1,55 @@
+"use client";
+
+import { useAccount } from "wagmi";
+import { useOperatorConnection } from "@/components/OperatorProvider";
+
+// Header light for the operator connection, with a retry once it gives up
+export default function OperatorStatusBadge() {
+  const { client, status } = useOperatorConnection();
+  const { isConnected: walletConnected } = useAccount();
+
+  let color: string;
+  let label: string;
+  if (status.versionMismatch) {
+    color = "#ff2d95";
+    label = "Reload to update";
+  } else if (status.authenticated) {
+    color = "#00f0ff";
+    label = "Online";
+  } else if (status.connected) {
+    color = walletConnected ? "#ffe814" : "#00f0ff";
+    label = walletConnected ? "Signing in" : "Online";
+  } else if (status.gaveUp) {
+    color = "#ff2d95";
+    label = "Offline";
+  } else if (status.reconnectAttempts > 0) {
+    color = "#ffe814";
+    label = `Reconnecting (${status.reconnectAttempts})`;
+  } else {
+    color = "#6b7280";
+    label = "Connecting";
+  }
+
+  return (
+    <div
+      className="flex items-center gap-1.5 text-xs"
+      title="Game server connection"
+    >
+      <span
+        className="inline-block w-2 h-2 rounded-full"
+        style={{ background: color, boxShadow: `0 0 6px ${color}` }}
+      />
+      <span className="hidden sm:inline" style={{ color }}>
+        {label}
+      </span>
+      {status.gaveUp && !status.versionMismatch && (
+        <button
+          onClick={() => client.reconnect()}
+          className="px-2 py-0.5 rounded border border-pink-500/40 text-pink-400 hover:bg-pink-500/10 transition-colors"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { WagmiProvider } from "wagmi";
 import { config } from "@/lib/wagmi";
+import OperatorProvider from "@/components/OperatorProvider";
+import TransactionToastProvider from "@/components/TransactionToastProvider";
 import { useState } from "react";
 
 export default function Providers({ children }: { children: React.ReactNode }) {
@@ -10,7 +12,11 @@ export default function Providers({ children }: { children: React.ReactNode }) {
 
   return (
     <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      <QueryClientProvider client={queryClient}>
+        <TransactionToastProvider>
+          <OperatorProvider>{children}</OperatorProvider>
+        </TransactionToastProvider>
+      </QueryClientProvider>
     </WagmiProvider>
   );
 }
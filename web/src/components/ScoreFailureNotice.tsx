@@ -0,0 +1,35 @@
+"use client";
+
+import type { ScoreFailure } from "@/lib/operator-client";
+
+interface ScoreFailureNoticeProps {
+  failures: ScoreFailure[];
+  onDismiss: () => void;
+}
+
+// Scores the operator couldn't get onchain while the player wasn't watching
+export default function ScoreFailureNotice({
+  failures,
+  onDismiss,
+}: ScoreFailureNoticeProps) {
+  if (failures.length === 0) return null;
+
+  return (
+    <div className="flex items-start justify-between gap-3 px-4 py-2 bg-black/60 border-b border-yellow-400/30 text-xs">
+      <ul className="space-y-0.5" style={{ color: "#ffe814" }}>
+        {failures.map((f) => (
+          <li key={f.attemptId}>
+            Tournament #{f.tournamentId}, attempt {f.attemptNumber}: score{" "}
+            {f.score} was not recorded ({f.reason})
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onDismiss}
+        className="text-gray-500 hover:text-white transition-colors shrink-0"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ interface TournamentCardProps {
   hasAttemptsLeft: boolean;
   onEnter: () => void;
   onPlay: () => void;
+  // Set while a run couldn't start, e.g. the operator is unreachable
+  playBlockedReason?: string | null;
   entering: boolean;
 }
 
@@ -27,6 +29,7 @@ export default function TournamentCard({
   hasAttemptsLeft,
   onEnter,
   onPlay,
+  playBlockedReason,
   entering,
 }: TournamentCardProps) {
   const now = BigInt(Math.floor(Date.now() / 1000));
@@ -115,15 +118,23 @@ export default function TournamentCard({
       )}
 
       {isActive && isEntered && hasAttemptsLeft && (
-        <button
-          onClick={onPlay}
-          className="w-full py-2 rounded-lg font-bold text-black transition-all hover:scale-[1.02]"
-          style={{
-            background: "linear-gradient(135deg, #ffe814, #ff2d95)",
-          }}
-        >
-          PLAY
-        </button>
+        <>
+          <button
+            onClick={onPlay}
+            disabled={Boolean(playBlockedReason)}
+            className="w-full py-2 rounded-lg font-bold text-black transition-all hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
+            style={{
+              background: "linear-gradient(135deg, #ffe814, #ff2d95)",
+            }}
+          >
+            PLAY
+          </button>
+          {playBlockedReason && (
+            <p className="text-xs text-center mt-2" style={{ color: "#ffe814" }}>
+              {playBlockedReason}
+            </p>
+          )}
+        </>
       )}
 
       {isActive && isEntered && !hasAttemptsLeft && (
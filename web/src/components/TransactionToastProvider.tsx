@@ -0,0 +1,132 @@
+"use client";
+
+import { createContext, useCallback, useContext, useRef, useState } from "react";
+import type { TransactionReceipt } from "viem";
+import { useConfig } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import { explorerTxUrl, megaethTestnet } from "@/lib/chains";
+
+type TransactionStatus = "pending" | "confirmed" | "failed";
+
+interface TransactionToast {
+  hash: `0x${string}`;
+  label: string;
+  status: TransactionStatus;
+  reason?: string;
+}
+
+interface TransactionToastContextValue {
+  // Shows the tx until it's mined. Resolves with the receipt; rejects if it
+  // reverted or never landed. Tracking the same hash again reuses the first.
+  track: (hash: `0x${string}`, label: string) => Promise<TransactionReceipt>;
+}
+
+// Gives up on a receipt after this long and calls the tx failed
+const RECEIPT_TIMEOUT_MS = 120000;
+// Confirmed toasts clear themselves; failed ones stay until dismissed
+const CONFIRMED_TOAST_MS = 6000;
+const MAX_TOASTS = 4;
+
+const STATUS_STYLE: Record<TransactionStatus, { color: string; label: string }> = {
+  pending: { color: "#ffe814", label: "Pending" },
+  confirmed: { color: "#00f0ff", label: "Confirmed" },
+  failed: { color: "#ff2d95", label: "Failed" },
+};
+
+const TransactionToastContext = createContext<TransactionToastContextValue | null>(null);
+
+// Transactions the player's play depends on — their own and the operator's —
+// from submission to receipt, each with a link to the explorer
+export default function TransactionToastProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const [toasts, setToasts] = useState<TransactionToast[]>([]);
+  const trackedRef = useRef(new Map<string, Promise<TransactionReceipt>>());
+
+  const dismiss = useCallback((hash: string) => {
+    setToasts((t) => t.filter((toast) => toast.hash !== hash));
+  }, []);
+
+  const update = useCallback((hash: string, change: Partial<TransactionToast>) => {
+    setToasts((t) => t.map((toast) => (toast.hash === hash ? { ...toast, ...change } : toast)));
+  }, []);
+
+  const track = useCallback(
+    (hash: `0x${string}`, label: string) => {
+      const tracked = trackedRef.current.get(hash);
+      if (tracked) return tracked;
+
+      setToasts((t) => [...t.slice(-(MAX_TOASTS - 1)), { hash, label, status: "pending" }]);
+      const receipt = waitForTransactionReceipt(config, {
+        hash,
+        chainId: megaethTestnet.id,
+        timeout: RECEIPT_TIMEOUT_MS,
+      }).then(
+        (receipt) => {
+          update(hash, { status: "confirmed" });
+          setTimeout(() => dismiss(hash), CONFIRMED_TOAST_MS);
+          return receipt;
+        },
+        (err: Error) => {
+          console.error(`[tx] ${label} failed:`, err);
+          update(hash, { status: "failed", reason: err.message });
+          throw err;
+        }
+      );
+      trackedRef.current.set(hash, receipt);
+      return receipt;
+    },
+    [config, dismiss, update]
+  );
+
+  return (
+    <TransactionToastContext.Provider value={{ track }}>
+      {children}
+      {toasts.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]">
+          {toasts.map((toast) => {
+            const style = STATUS_STYLE[toast.status];
+            return (
+              <div
+                key={toast.hash}
+                className="px-3 py-2 rounded-lg bg-black/80 border text-xs backdrop-blur"
+                style={{ borderColor: `${style.color}40` }}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1.5">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full ${toast.status === "pending" ? "animate-pulse" : ""}`}
+                      style={{ background: style.color, boxShadow: `0 0 6px ${style.color}` }}
+                    />
+                    <span className="text-white">{toast.label}</span>
+                    <span style={{ color: style.color }}>{style.label}</span>
+                  </div>
+                  <button
+                    onClick={() => dismiss(toast.hash)}
+                    className="text-gray-500 hover:text-white transition-colors"
+                  >
+                    &times;
+                  </button>
+                </div>
+                {toast.reason && <div className="mt-1 text-gray-400 truncate">{toast.reason}</div>}
+                <a
+                  href={explorerTxUrl(toast.hash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block mt-1 text-purple-400 hover:text-purple-300 transition-colors"
+                >
+                  View on Explorer &rarr;
+                </a>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </TransactionToastContext.Provider>
+  );
+}
+
+export function useTransactionToasts(): TransactionToastContextValue {
+  const value = useContext(TransactionToastContext);
+  if (!value) throw new Error("useTransactionToasts must be used inside TransactionToastProvider");
+  return value;
+}
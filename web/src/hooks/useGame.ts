@@ -1,53 +1,97 @@
 "use client";
 
-import { useRef, useCallback, useEffect } from "react";
-import { useAccount, useSignMessage } from "wagmi";
-import { OperatorClient } from "@/lib/operator-client";
+import { useRef, useCallback, useEffect, useState } from "react";
+import type { ScoreFailure, ScoreRecord } from "@/lib/operator-client";
+import { useOperatorConnection } from "@/components/OperatorProvider";
+import { useTransactionToasts } from "@/components/TransactionToastProvider";
+import type { Replay } from "@/shared/replay.mjs";
 
-export function useOperator() {
-  const clientRef = useRef<OperatorClient | null>(null);
-  const { address } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+// Operator's verdicts on the current attempt's obstacles
+export interface ObstacleCounts {
+  verified: number;
+  rejected: number;
+}
 
-  // Keep signMessageAsync in a ref so it doesn't cause reconnects
-  const signRef = useRef(signMessageAsync);
-  signRef.current = signMessageAsync;
+// Gameplay on the app's shared operator connection (see OperatorProvider)
+export function useOperator() {
+  const { client, status } = useOperatorConnection();
+  const { track } = useTransactionToasts();
+  const [obstacleCounts, setObstacleCounts] = useState<ObstacleCounts>({
+    verified: 0,
+    rejected: 0,
+  });
+  // Scores that failed onchain outside a crash() we were waiting on — usually
+  // reported at sign-in after the player was away
+  const [scoreFailures, setScoreFailures] = useState<ScoreFailure[]>([]);
+  const crashPendingRef = useRef(false);
 
   useEffect(() => {
-    const client = new OperatorClient(
-      process.env.NEXT_PUBLIC_OPERATOR_URL || "wss://operator-production-4127.up.railway.app"
-    );
-
-    // Set auth credentials if wallet is connected
-    if (address) {
-      client.setAuth(address, (args) => signRef.current(args));
-    }
-
-    client.connect();
-    clientRef.current = client;
-
-    return () => {
-      client.disconnect();
-    };
-  }, [address]);
+    const unsubscribes = [
+      client.onObstacleAck(() => {
+        setObstacleCounts((c) => ({ ...c, verified: c.verified + 1 }));
+      }),
+      client.onObstacleNack((nack) => {
+        console.warn(`[operator] obstacle ${nack.obstacleId} not counted: ${nack.reason}`);
+        setObstacleCounts((c) => ({ ...c, rejected: c.rejected + 1 }));
+      }),
+      client.onScoreFailed((failure) => {
+        // The pending crash() rejects with this one; the game over screen shows it
+        if (crashPendingRef.current) return;
+        setScoreFailures((f) => [...f, failure]);
+      }),
+      // The operator's transactions for the player's runs; the toast reports failures
+      client.on("ATTEMPT_STARTED", (msg) => {
+        track(msg.txHash, "Attempt start").catch(() => {});
+      }),
+      client.on("SCORE_RECORDED", (msg) => {
+        track(msg.txHash, `Score ${msg.score}`).catch(() => {});
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [client, track]);
 
   const startAttempt = useCallback(
-    (tournamentId: number) => {
-      clientRef.current?.startAttempt(tournamentId);
+    (tournamentId: number): Promise<number> => {
+      setObstacleCounts({ verified: 0, rejected: 0 });
+      return client.startAttempt(tournamentId);
     },
-    []
+    [client]
   );
 
   const obstaclePassed = useCallback(
-    (obstacleId: number) => {
-      clientRef.current?.obstaclePassed(obstacleId);
+    (obstacleId: number, frame: number) => {
+      client.obstaclePassed(obstacleId, frame);
+    },
+    [client]
+  );
+
+  const heartbeat = useCallback(
+    (frame: number) => {
+      client.heartbeat(frame);
+    },
+    [client]
+  );
+
+  const crash = useCallback(
+    (replay: Replay): Promise<ScoreRecord> => {
+      crashPendingRef.current = true;
+      return client.crash(replay).finally(() => {
+        crashPendingRef.current = false;
+      });
     },
-    []
+    [client]
   );
 
-  const crash = useCallback(() => {
-    clientRef.current?.crash();
-  }, []);
+  const dismissScoreFailures = useCallback(() => setScoreFailures([]), []);
 
-  return { startAttempt, obstaclePassed, crash };
+  return {
+    startAttempt,
+    obstaclePassed,
+    heartbeat,
+    crash,
+    obstacleCounts,
+    scoreFailures,
+    dismissScoreFailures,
+    status,
+  };
 }
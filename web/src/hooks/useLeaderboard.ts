@@ -4,15 +4,10 @@ import { useEffect, useState, useCallback } from "react";
 import { createPublicClient, http } from "viem";
 import { MEGARALLY_ADDRESS, MEGARALLY_ABI } from "@/lib/contract";
 import { megaethTestnet } from "@/lib/chains";
+import { fetchLeaderboard as fetchFromOperator } from "@/lib/operator-api";
+import { groupTickets, type TicketEntry } from "@/shared/tickets.mjs";
 
-const ATTEMPTS_PER_TICKET = 3;
-
-export interface TicketEntry {
-  player: string;
-  ticket: number; // 1-indexed
-  ticketScore: number; // sum of the 3 attempts in this ticket
-  scores: number[]; // individual attempt scores for this ticket
-}
+export type { TicketEntry };
 
 const client = createPublicClient({
   chain: megaethTestnet,
@@ -29,6 +24,14 @@ export function useLeaderboard(tournamentId: number) {
     try {
       setIsLoading(true);
 
+      // One request to the operator's index; the chain reads below are the fallback
+      try {
+        setEntries(await fetchFromOperator(tournamentId));
+        return;
+      } catch (err) {
+        console.warn("[leaderboard] operator API unavailable, reading the chain:", err);
+      }
+
       // Step 1: Get all player addresses
       const players = await client.readContract({
         address: MEGARALLY_ADDRESS,
@@ -54,31 +57,11 @@ export function useLeaderboard(tournamentId: number) {
           args: [BigInt(tournamentId), player],
         });
 
-        const attemptsUsed = Number(entry.attemptsUsed);
-        const ticketCount = Number(entry.tickets);
-        const scores = entry.scores;
-
         // Step 3: Split into ticket groups
-        for (let t = 0; t < ticketCount; t++) {
-          const startIdx = t * ATTEMPTS_PER_TICKET;
-          const ticketScores: number[] = [];
-
-          for (let a = 0; a < ATTEMPTS_PER_TICKET; a++) {
-            const idx = startIdx + a;
-            if (idx < attemptsUsed) {
-              ticketScores.push(Number(scores[idx]));
-            }
-          }
-
-          if (ticketScores.length > 0) {
-            newEntries.push({
-              player,
-              ticket: t + 1,
-              ticketScore: ticketScores.reduce((a, b) => a + b, 0),
-              scores: ticketScores,
-            });
-          }
-        }
+        const scores = entry.scores
+          .slice(0, Number(entry.attemptsUsed))
+          .map((score) => Number(score));
+        newEntries.push(...groupTickets(player, Number(entry.tickets), scores));
       }
 
       setEntries(newEntries);
@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback } from "react";
 import { createPublicClient, http, formatEther } from "viem";
 import { MEGARALLY_ADDRESS, MEGARALLY_ABI } from "@/lib/contract";
 import { megaethTestnet } from "@/lib/chains";
+import { fetchPlayerHistory } from "@/lib/operator-api";
 
 const ATTEMPTS_PER_TICKET = 3;
 
@@ -42,6 +43,32 @@ export function usePlayerHistory(address: string | undefined) {
     try {
       setIsLoading(true);
 
+      // One request to the operator's index; the per-tournament reads below are
+      // the fallback, also used when the index doesn't hold every tournament
+      try {
+        const { history: items, complete } = await fetchPlayerHistory(address);
+        if (!complete) throw new Error("operator index doesn't cover every tournament");
+        setHistory(
+          items.map((h) => ({
+            tournamentId: h.tournamentId,
+            entryFee: BigInt(h.entryFee),
+            endTime: BigInt(h.endTime),
+            prizePool: BigInt(h.prizePool),
+            ended: h.ended,
+            cancelled: h.cancelled,
+            winner: h.winner,
+            scores: h.scores,
+            attemptsUsed: h.attemptsUsed,
+            tickets: h.tickets,
+            totalScore: h.totalScore,
+            bestScore: h.bestScore,
+          }))
+        );
+        return;
+      } catch (err) {
+        console.warn("[player-history] operator history unavailable, reading the chain:", err);
+      }
+
       const count = await client.readContract({
         address: MEGARALLY_ADDRESS,
         abi: MEGARALLY_ABI,
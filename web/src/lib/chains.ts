@@ -22,3 +22,8 @@ export const megaethTestnet = defineChain({
     },
   },
 });
+
+// Explorer page for a transaction
+export function explorerTxUrl(hash: string): string {
+  return `${megaethTestnet.blockExplorers.default.url}/tx/${hash}`;
+}
@@ -87,6 +87,18 @@ export const MEGARALLY_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "recordAttemptEndWithObstacles",
+    inputs: [
+      { name: "_tournamentId", type: "uint256" },
+      { name: "_player", type: "address" },
+      { name: "_score", type: "uint256" },
+      { name: "_obstacleIds", type: "uint256[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "getEntry",
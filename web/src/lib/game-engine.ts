@@ -1,35 +1,27 @@
 // Game Engine for MegaRally / Fluffle Dash
 // Horizontal endless runner with cyberpunk aesthetic
+// Gameplay lives in the headless Simulation; this class owns the canvas,
+// the game loop and everything purely visual (particles, parallax, stars).
+
+import { Simulation, type Obstacle } from "@/shared/simulation.mjs";
+import {
+  RULES_VERSION,
+  OBSTACLE_SPEED_START,
+  FLUFFLE_SIZE,
+  STEP_MS,
+  MAX_RUN_FRAMES,
+  MAX_SCORE,
+  WORLD_WIDTH,
+  WORLD_HEIGHT,
+  GROUND_Y,
+} from "@/shared/rules.mjs";
+import { REPLAY_FORMAT_VERSION, type Replay } from "@/shared/replay.mjs";
 
 export interface GameCallbacks {
   onScoreChange: (score: number) => void;
-  onGameOver: (score: number) => void;
-  onObstaclePassed: (obstacleId: number) => void;
-}
-
-interface Fluffle {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  velocityY: number;
-  isJumping: boolean;
-  frame: number;
-  state: "running" | "jumping" | "crashed";
-}
-
-type ObstacleStyle = "trashcan" | "crate" | "car" | "barrier";
-
-interface Obstacle {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  passed: boolean;
-  style: ObstacleStyle;
-  color: string;
-  accentColor: string;
+  onGameOver: (score: number, replay: Replay) => void;
+  onObstaclePassed: (obstacleId: number, frame: number) => void;
+  onHeartbeat: (frame: number) => void;
 }
 
 interface Particle {
@@ -43,6 +35,13 @@ interface Particle {
   color: string;
 }
 
+interface Playback {
+  replay: Replay;
+  next: number; // index of the next jump to apply
+  resolve: (score: number) => void;
+  reject: (err: Error) => void;
+}
+
 interface Star {
   x: number;
   y: number;
@@ -52,18 +51,13 @@ interface Star {
 }
 
 // --- TUNING ---
-const GRAVITY = 0.55;
-const JUMP_VELOCITY = -14;
-const GROUND_OFFSET_RATIO = 0.15; // ground area = 15% of canvas height
-const OBSTACLE_SPEED_START = 6;
-const OBSTACLE_SPEED_INCREMENT = 0.0008;
-const MAX_SPEED = 14;
-const FLUFFLE_SIZE = 48;
-const HITBOX_SHRINK = 12;
-
-// Scoring: distance points per frame + bonus per obstacle
-const DISTANCE_SCORE_RATE = 0.15; // points per frame (scaled by speed)
-const OBSTACLE_BONUS = 25;
+// Longest gap we catch up on in one go; beyond this the game just slows down
+// instead of fast-forwarding through a burst of unseen physics steps
+const MAX_FRAME_MS = 250;
+
+// Live runs report their frame count this often (once per second of game
+// time) so the operator can tell a frozen or sped-up game from a real one
+const HEARTBEAT_FRAMES = 60;
 
 // Neon colors
 const NEON_PINK = "#ff2d95";
@@ -73,7 +67,13 @@ const NEON_YELLOW = "#ffe814";
 const NEON_GREEN = "#39ff14";
 const DARK_BG = "#0a0a1a";
 
-const OBSTACLE_PALETTES: { color: string; accent: string }[] = [
+interface ObstaclePalette {
+  color: string;
+  accent: string;
+}
+
+// Indexed by Obstacle.palette — order must match OBSTACLE_PALETTE_COUNT
+const OBSTACLE_PALETTES: ObstaclePalette[] = [
   { color: NEON_PINK, accent: NEON_YELLOW },
   { color: NEON_PURPLE, accent: NEON_CYAN },
   { color: "#ff6b35", accent: NEON_YELLOW },
@@ -81,31 +81,50 @@ const OBSTACLE_PALETTES: { color: string; accent: string }[] = [
   { color: NEON_GREEN, accent: "#ffffff" },
 ];
 
-const OBSTACLE_STYLES: ObstacleStyle[] = ["trashcan", "crate", "car", "barrier"];
+// Used when the caller doesn't supply a course seed
+function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
 
 export class GameEngine {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private fluffle: Fluffle;
-  private obstacles: Obstacle[] = [];
+  private sim: Simulation;
   private particles: Particle[] = [];
   private stars: Star[] = [];
-  private score = 0;
-  private displayScore = 0;
-  private obstaclesPassed = 0;
-  private obstacleIdCounter = 0;
-  private speed = OBSTACLE_SPEED_START;
   private frameCount = 0;
-  private groundY = 0;
-  private groundOffset = 100;
-  private nextObstacleX = 0;
+  private runAnim = 0;
+
+  // World -> canvas mapping. The world is scaled uniformly to fit, centred
+  // horizontally and sitting on the bottom edge; `view` is the visible area
+  // in world units, which can extend past the world on odd aspect ratios.
+  private scale = 1;
+  private offsetX = 0;
+  private offsetY = 0;
+  private view = { left: 0, top: 0, width: WORLD_WIDTH, height: WORLD_HEIGHT };
   private animationId: number | null = null;
   private callbacks: GameCallbacks;
   private isRunning = false;
   private isDemoMode = false;
   private lastTime = 0;
+  private accumulator = 0;
   private lastReportedScore = -1;
 
+  // State as of the previous physics step — render() blends towards the
+  // current one so motion stays smooth at any refresh rate
+  private prev = {
+    playerY: 0,
+    bg1: 0,
+    bg2: 0,
+    bg3: 0,
+    obstacleX: new Map<number, number>(),
+  };
+  private alpha = 1;
+
+  // Replay recording / playback
+  private recordedJumps: number[] = [];
+  private playback: Playback | null = null;
+
   // Parallax offsets
   private bgOffset1 = 0;
   private bgOffset2 = 0;
@@ -135,33 +154,19 @@ export class GameEngine {
     this.ctx = canvas.getContext("2d")!;
     this.callbacks = callbacks;
 
-    this.groundOffset = Math.max(60, Math.round(canvas.height * GROUND_OFFSET_RATIO));
-    this.groundY = canvas.height - this.groundOffset;
-    this.fluffle = this.createFluffle();
+    this.sim = new Simulation(randomSeed());
+    this.updateView();
     this.generateBuildings();
     this.generateStars();
     this.prerenderScanlines();
   }
 
-  private createFluffle(): Fluffle {
-    return {
-      x: this.canvas.width * 0.2,
-      y: this.groundY - FLUFFLE_SIZE,
-      width: FLUFFLE_SIZE,
-      height: FLUFFLE_SIZE,
-      velocityY: 0,
-      isJumping: false,
-      frame: 0,
-      state: "running",
-    };
-  }
-
   private generateStars() {
     this.stars = [];
     for (let i = 0; i < 60; i++) {
       this.stars.push({
-        x: Math.random() * this.canvas.width,
-        y: Math.random() * (this.groundY - 100),
+        x: this.view.left + Math.random() * this.view.width,
+        y: this.view.top + Math.random() * (GROUND_Y - 100 - this.view.top),
         size: Math.random() * 2 + 0.5,
         brightness: Math.random(),
         speed: Math.random() * 0.3 + 0.1,
@@ -172,7 +177,7 @@ export class GameEngine {
   private generateBuildings() {
     this.farBuildings = [];
     let x = 0;
-    while (x < this.canvas.width * 2) {
+    while (x < this.view.width * 2) {
       const w = 40 + Math.random() * 80;
       const h = 80 + Math.random() * 200;
       const colors = ["#1a1a3e", "#151535", "#1e1e42"];
@@ -186,7 +191,7 @@ export class GameEngine {
     this.midBuildings = [];
     x = 0;
     const windowColors = [NEON_CYAN, NEON_PINK, NEON_YELLOW, "#ffffff"];
-    while (x < this.canvas.width * 2) {
+    while (x < this.view.width * 2) {
       const w = 50 + Math.random() * 100;
       const h = 100 + Math.random() * 250;
       const colors = ["#1a1a4a", "#1f1f50", "#252558"];
@@ -213,44 +218,57 @@ export class GameEngine {
   }
 
   private prerenderBuildings() {
-    const groundY = this.groundY;
-
     // Far buildings
     const farLast = this.farBuildings[this.farBuildings.length - 1];
-    const farTotalW = farLast ? farLast.x + farLast.w : this.canvas.width;
+    const farTotalW = farLast ? farLast.x + farLast.w : this.view.width;
     this.farBuildingWidth = farTotalW;
     this.farBuildingCanvas = document.createElement("canvas");
     this.farBuildingCanvas.width = farTotalW;
-    this.farBuildingCanvas.height = this.canvas.height;
+    this.farBuildingCanvas.height = GROUND_Y;
     const fctx = this.farBuildingCanvas.getContext("2d")!;
     for (const b of this.farBuildings) {
       fctx.fillStyle = b.color;
-      fctx.fillRect(b.x, groundY - b.h, b.w, b.h);
+      fctx.fillRect(b.x, GROUND_Y - b.h, b.w, b.h);
       fctx.fillStyle = "rgba(176, 36, 255, 0.08)";
-      fctx.fillRect(b.x, groundY - b.h, b.w, 4);
+      fctx.fillRect(b.x, GROUND_Y - b.h, b.w, 4);
     }
 
     // Mid buildings
     const midLast = this.midBuildings[this.midBuildings.length - 1];
-    const midTotalW = midLast ? midLast.x + midLast.w : this.canvas.width;
+    const midTotalW = midLast ? midLast.x + midLast.w : this.view.width;
     this.midBuildingWidth = midTotalW;
     this.midBuildingCanvas = document.createElement("canvas");
     this.midBuildingCanvas.width = midTotalW;
-    this.midBuildingCanvas.height = this.canvas.height;
+    this.midBuildingCanvas.height = GROUND_Y;
     const mctx = this.midBuildingCanvas.getContext("2d")!;
     for (const b of this.midBuildings) {
       mctx.fillStyle = b.color;
-      mctx.fillRect(b.x, groundY - b.h, b.w, b.h);
+      mctx.fillRect(b.x, GROUND_Y - b.h, b.w, b.h);
       // Windows — pre-bake at alpha
       mctx.globalAlpha = 0.3;
       for (const win of b.windows) {
         mctx.fillStyle = win.color;
-        mctx.fillRect(b.x + win.x, groundY - b.h + win.y, 6, 8);
+        mctx.fillRect(b.x + win.x, GROUND_Y - b.h + win.y, 6, 8);
       }
       mctx.globalAlpha = 1;
     }
   }
 
+  private updateView() {
+    const w = this.canvas.width;
+    const h = this.canvas.height;
+    const scale = Math.min(w / WORLD_WIDTH, h / WORLD_HEIGHT);
+    this.scale = scale > 0 ? scale : 1;
+    this.offsetX = (w - WORLD_WIDTH * this.scale) / 2;
+    this.offsetY = h - WORLD_HEIGHT * this.scale;
+    this.view = {
+      left: -this.offsetX / this.scale,
+      top: -this.offsetY / this.scale,
+      width: w / this.scale,
+      height: h / this.scale,
+    };
+  }
+
   private prerenderScanlines() {
     const w = this.canvas.width;
     const h = this.canvas.height;
@@ -266,42 +284,83 @@ export class GameEngine {
   }
 
   resize(width: number, height: number) {
+    // Only the view changes — the simulated world is the same at every size
     this.canvas.width = width;
     this.canvas.height = height;
-    this.groundOffset = Math.max(60, Math.round(height * GROUND_OFFSET_RATIO));
-    this.groundY = height - this.groundOffset;
-    if (!this.isRunning) {
-      this.fluffle.y = this.groundY - FLUFFLE_SIZE;
-    }
+    this.updateView();
     this.generateBuildings();
     this.generateStars();
     this.prerenderScanlines();
   }
 
   jump() {
-    if (this.fluffle.state === "crashed") return;
-    if (!this.fluffle.isJumping) {
-      this.fluffle.velocityY = JUMP_VELOCITY;
-      this.fluffle.isJumping = true;
-      this.fluffle.state = "jumping";
+    // Player input is ignored while a replay drives the simulation
+    if (this.playback) return;
+    if (this.isRunning) {
+      this.recordedJumps.push(this.sim.frame);
+    }
+    if (this.sim.jump()) {
       this.spawnJumpParticles();
     }
   }
 
-  start() {
-    this.score = 0;
-    this.displayScore = 0;
-    this.obstaclesPassed = 0;
-    this.speed = OBSTACLE_SPEED_START;
+  start(seed: number = randomSeed()) {
+    this.cancelPlayback();
+    this.stopLoop();
+    this.beginRun(seed);
+  }
+
+  /**
+   * Play a recorded run back through the normal loop and renderer.
+   * Resolves with the replayed score when the run crashes or reaches its last
+   * frame. Obstacle and game-over callbacks are not fired — only onScoreChange.
+   */
+  playReplay(replay: Replay): Promise<number> {
+    if (replay.rules !== RULES_VERSION) {
+      return Promise.reject(
+        new Error(`Replay rules ${replay.rules} do not match ${RULES_VERSION}`)
+      );
+    }
+    this.cancelPlayback();
+    this.stopLoop();
+    return new Promise((resolve, reject) => {
+      this.playback = { replay, next: 0, resolve, reject };
+      this.beginRun(replay.seed);
+    });
+  }
+
+  /**
+   * End a live run where it stands, e.g. when the page is hidden. Reported
+   * through onGameOver like a crash, with a replay that stops on this frame.
+   */
+  forfeit() {
+    if (!this.isRunning || this.playback) return;
+    this.endRun();
+  }
+
+  // Stop a live run without a crash and report it
+  private endRun() {
+    this.isRunning = false;
+    this.stopLoop();
+    const score = this.sim.getScore();
+    this.callbacks.onGameOver(score, this.buildReplay(score));
+  }
+
+  isReplaying(): boolean {
+    return this.playback !== null;
+  }
+
+  private beginRun(seed: number) {
+    this.sim.reset(seed);
+    this.recordedJumps = [];
     this.frameCount = 0;
-    this.obstacles = [];
+    this.runAnim = 0;
     this.particles = [];
-    this.obstacleIdCounter = 0;
     this.lastReportedScore = -1;
-    this.fluffle = this.createFluffle();
-    this.nextObstacleX = 300;
     this.isRunning = true;
     this.lastTime = performance.now();
+    this.accumulator = 0;
+    this.snapshot();
     this.callbacks.onScoreChange(0);
     this.loop();
   }
@@ -309,24 +368,33 @@ export class GameEngine {
   stop() {
     this.isRunning = false;
     this.isDemoMode = false;
+    this.cancelPlayback();
+    this.stopLoop();
+  }
+
+  private stopLoop() {
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
   }
 
+  private cancelPlayback() {
+    if (!this.playback) return;
+    const { reject } = this.playback;
+    this.playback = null;
+    reject(new Error("Replay playback stopped"));
+  }
+
   startDemo() {
     this.isDemoMode = true;
     this.isRunning = false;
-    this.score = 0;
-    this.displayScore = 0;
-    this.speed = OBSTACLE_SPEED_START;
+    this.sim.reset(randomSeed());
     this.frameCount = 0;
-    this.obstacles = [];
     this.particles = [];
-    this.fluffle = this.createFluffle();
-    this.fluffle.state = "running";
     this.lastTime = performance.now();
+    this.accumulator = 0;
+    this.snapshot();
     this.demoLoop();
   }
 
@@ -341,175 +409,150 @@ export class GameEngine {
   private demoLoop = () => {
     if (!this.isDemoMode) return;
 
-    const now = performance.now();
-    const delta = now - this.lastTime;
-
-    if (delta >= 16) {
-      this.lastTime = now;
+    this.accumulate();
+    while (this.accumulator >= STEP_MS) {
+      this.snapshot();
       // Update parallax and fluffle animation only — no obstacles, no scoring
-      this.bgOffset1 += this.speed * 0.1;
-      this.bgOffset2 += this.speed * 0.3;
-      this.bgOffset3 += this.speed * 0.6;
-      this.fluffle.frame += 0.15;
+      this.bgOffset1 += this.sim.speed * 0.1;
+      this.bgOffset2 += this.sim.speed * 0.3;
+      this.bgOffset3 += this.sim.speed * 0.6;
+      this.runAnim += 0.15;
       this.frameCount++;
-      this.render();
+      this.accumulator -= STEP_MS;
     }
+    this.render(this.accumulator / STEP_MS);
 
     this.animationId = requestAnimationFrame(this.demoLoop);
   };
 
   getScore(): number {
-    return Math.floor(this.score);
+    return this.sim.getScore();
+  }
+
+  getSeed(): number {
+    return this.sim.seed;
   }
 
   isGameRunning(): boolean {
     return this.isRunning;
   }
 
+  // Fixed timestep: physics always advances in STEP_MS increments, however
+  // often the display refreshes. Rendering interpolates between steps.
   private loop = () => {
     if (!this.isRunning) return;
 
-    const now = performance.now();
-    const delta = now - this.lastTime;
-
-    if (delta >= 16) {
-      this.lastTime = now;
+    this.accumulate();
+    while (this.accumulator >= STEP_MS && this.isRunning) {
+      this.snapshot();
       this.update();
-      this.render();
       this.frameCount++;
+      this.accumulator -= STEP_MS;
     }
 
+    // A crash hands rendering over to the crash animation
+    if (!this.isRunning) return;
+    this.render(this.accumulator / STEP_MS);
     this.animationId = requestAnimationFrame(this.loop);
   };
 
-  private update() {
-    this.speed = Math.min(MAX_SPEED, OBSTACLE_SPEED_START + this.frameCount * OBSTACLE_SPEED_INCREMENT);
-    this.score += DISTANCE_SCORE_RATE * (this.speed / OBSTACLE_SPEED_START);
-    this.displayScore += (this.score - this.displayScore) * 0.3;
-    const intScore = Math.floor(this.score);
-    if (intScore !== this.lastReportedScore) {
-      this.lastReportedScore = intScore;
-      this.callbacks.onScoreChange(intScore);
-    }
-    this.updateFluffle();
-    this.updateObstacles();
-    this.spawnObstacles();
-    this.updateParticles();
-    this.bgOffset1 += this.speed * 0.1;
-    this.bgOffset2 += this.speed * 0.3;
-    this.bgOffset3 += this.speed * 0.6;
-    this.checkCollisions();
+  private accumulate() {
+    const now = performance.now();
+    this.accumulator += Math.min(now - this.lastTime, MAX_FRAME_MS);
+    this.lastTime = now;
   }
 
-  private updateFluffle() {
-    if (this.fluffle.state === "crashed") return;
-    this.fluffle.velocityY += GRAVITY;
-    this.fluffle.y += this.fluffle.velocityY;
-    if (this.fluffle.y >= this.groundY - FLUFFLE_SIZE) {
-      this.fluffle.y = this.groundY - FLUFFLE_SIZE;
-      this.fluffle.velocityY = 0;
-      this.fluffle.isJumping = false;
-      if (this.fluffle.state === "jumping") {
-        this.fluffle.state = "running";
-      }
+  private snapshot() {
+    this.prev.playerY = this.sim.player.y;
+    this.prev.bg1 = this.bgOffset1;
+    this.prev.bg2 = this.bgOffset2;
+    this.prev.bg3 = this.bgOffset3;
+    this.prev.obstacleX.clear();
+    for (const obs of this.sim.obstacles) {
+      this.prev.obstacleX.set(obs.id, obs.x);
     }
-    this.fluffle.frame += 0.15;
   }
 
-  private updateObstacles() {
-    for (let i = this.obstacles.length - 1; i >= 0; i--) {
-      const obs = this.obstacles[i];
-      obs.x -= this.speed;
-      if (!obs.passed && obs.x + obs.width < this.fluffle.x) {
-        obs.passed = true;
-        this.obstaclesPassed++;
-        this.score += OBSTACLE_BONUS;
-        const intScore = Math.floor(this.score);
-        if (intScore !== this.lastReportedScore) {
-          this.lastReportedScore = intScore;
-          this.callbacks.onScoreChange(intScore);
-        }
-        this.callbacks.onObstaclePassed(obs.id);
-        this.spawnScoreParticles(obs.x + obs.width, obs.y);
+  private lerp(from: number, to: number) {
+    return from + (to - from) * this.alpha;
+  }
+
+  private update() {
+    if (this.playback) {
+      const { replay } = this.playback;
+      if (this.sim.frame >= replay.frames) {
+        // Abandoned run — it stops here without a crash
+        const { resolve } = this.playback;
+        this.isRunning = false;
+        this.playback = null;
+        resolve(this.sim.getScore());
+        return;
       }
-      if (obs.x + obs.width < -50) {
-        this.obstacles.splice(i, 1);
+      while (
+        this.playback.next < replay.jumps.length &&
+        replay.jumps[this.playback.next] === this.sim.frame
+      ) {
+        this.playback.next++;
+        if (this.sim.jump()) this.spawnJumpParticles();
       }
     }
-  }
 
-  private getDifficulty() {
-    const n = this.obstaclesPassed;
-    if (n < 4) {
-      return { minH: 32, maxH: 44, minW: 24, maxW: 36, minGap: 420, maxGap: 550 };
-    } else if (n < 8) {
-      return { minH: 34, maxH: 48, minW: 26, maxW: 40, minGap: 400, maxGap: 520 };
-    } else if (n < 12) {
-      return { minH: 36, maxH: 52, minW: 28, maxW: 44, minGap: 370, maxGap: 480 };
-    } else if (n < 18) {
-      return { minH: 38, maxH: 56, minW: 30, maxW: 48, minGap: 340, maxGap: 440 };
-    } else if (n < 24) {
-      return { minH: 40, maxH: 58, minW: 32, maxW: 50, minGap: 310, maxGap: 400 };
-    } else if (n < 30) {
-      return { minH: 42, maxH: 62, minW: 34, maxW: 52, minGap: 280, maxGap: 370 };
-    } else if (n < 36) {
-      return { minH: 44, maxH: 64, minW: 36, maxW: 56, minGap: 260, maxGap: 340 };
-    } else if (n < 42) {
-      return { minH: 46, maxH: 66, minW: 38, maxW: 58, minGap: 240, maxGap: 310 };
-    } else {
-      return { minH: 48, maxH: 70, minW: 40, maxW: 60, minGap: 220, maxGap: 290 };
+    const events = this.sim.step();
+    const intScore = this.sim.getScore();
+    if (intScore !== this.lastReportedScore) {
+      this.lastReportedScore = intScore;
+      this.callbacks.onScoreChange(intScore);
     }
-  }
-
-  private spawnObstacles() {
-    this.nextObstacleX -= this.speed;
-    if (this.nextObstacleX <= 0) {
-      const diff = this.getDifficulty();
-      const spacing = diff.minGap + Math.random() * (diff.maxGap - diff.minGap);
-      this.nextObstacleX = spacing;
-      const obstacleHeight = diff.minH + Math.random() * (diff.maxH - diff.minH);
-      const obstacleWidth = diff.minW + Math.random() * (diff.maxW - diff.minW);
-      const style = OBSTACLE_STYLES[Math.floor(Math.random() * OBSTACLE_STYLES.length)];
-      const palette = OBSTACLE_PALETTES[Math.floor(Math.random() * OBSTACLE_PALETTES.length)];
-      this.obstacleIdCounter++;
-      this.obstacles.push({
-        id: this.obstacleIdCounter,
-        x: this.canvas.width + 50,
-        y: this.groundY - obstacleHeight,
-        width: obstacleWidth,
-        height: obstacleHeight,
-        passed: false,
-        style,
-        color: palette.color,
-        accentColor: palette.accent,
-      });
+    if (!this.sim.crashed) {
+      this.runAnim += 0.15;
+      if (!this.playback && this.sim.frame % HEARTBEAT_FRAMES === 0) {
+        this.callbacks.onHeartbeat(this.sim.frame);
+      }
     }
-  }
-
-  private checkCollisions() {
-    if (this.fluffle.state === "crashed") return;
-    const f = this.fluffle;
-    const fLeft = f.x + HITBOX_SHRINK;
-    const fRight = f.x + f.width - HITBOX_SHRINK;
-    const fTop = f.y + HITBOX_SHRINK;
-    const fBottom = f.y + f.height - HITBOX_SHRINK;
-    for (const obs of this.obstacles) {
-      if (obs.passed) continue;
-      if (fRight > obs.x + 4 && fLeft < obs.x + obs.width - 4 && fBottom > obs.y + 4 && fTop < obs.y + obs.height) {
-        this.crash();
-        return;
+    for (const ev of events) {
+      if (ev.type === "obstacle") {
+        if (!this.playback) this.callbacks.onObstaclePassed(ev.obstacle.id, this.sim.frame);
+        this.spawnScoreParticles(ev.obstacle.x + ev.obstacle.width, ev.obstacle.y);
       }
     }
+    this.updateParticles();
+    this.bgOffset1 += this.sim.speed * 0.1;
+    this.bgOffset2 += this.sim.speed * 0.3;
+    this.bgOffset3 += this.sim.speed * 0.6;
+    if (events.some((ev) => ev.type === "crash")) {
+      this.crash();
+    } else if (!this.playback && (this.sim.frame >= MAX_RUN_FRAMES || this.sim.getScore() >= MAX_SCORE)) {
+      // As long as the operator will score, or as high as the contract will
+      // record — the run ends here and counts
+      this.endRun();
+    }
   }
 
   private crash() {
-    this.fluffle.state = "crashed";
     this.isRunning = false;
     this.spawnCrashParticles();
-    this.callbacks.onGameOver(Math.floor(this.score));
+    const score = this.sim.getScore();
+    if (this.playback) {
+      const { resolve } = this.playback;
+      this.playback = null;
+      resolve(score);
+    } else {
+      this.callbacks.onGameOver(score, this.buildReplay(score));
+    }
     this.renderCrashAnimation();
   }
 
+  private buildReplay(score: number): Replay {
+    return {
+      format: REPLAY_FORMAT_VERSION,
+      rules: RULES_VERSION,
+      seed: this.sim.seed,
+      frames: this.sim.frame,
+      score,
+      jumps: [...this.recordedJumps],
+    };
+  }
+
   private renderCrashAnimation() {
     let frames = 0;
     const animate = () => {
@@ -525,8 +568,8 @@ export class GameEngine {
   private spawnJumpParticles() {
     for (let i = 0; i < 4; i++) {
       this.particles.push({
-        x: this.fluffle.x + FLUFFLE_SIZE / 2,
-        y: this.groundY,
+        x: this.sim.player.x + FLUFFLE_SIZE / 2,
+        y: GROUND_Y,
         vx: (Math.random() - 0.5) * 3,
         vy: -Math.random() * 2,
         life: 15,
@@ -554,8 +597,8 @@ export class GameEngine {
   private spawnCrashParticles() {
     for (let i = 0; i < 15; i++) {
       this.particles.push({
-        x: this.fluffle.x + FLUFFLE_SIZE / 2,
-        y: this.fluffle.y + FLUFFLE_SIZE / 2,
+        x: this.sim.player.x + FLUFFLE_SIZE / 2,
+        y: this.sim.player.y + FLUFFLE_SIZE / 2,
         vx: (Math.random() - 0.5) * 10,
         vy: (Math.random() - 0.5) * 10,
         life: 35,
@@ -581,23 +624,36 @@ export class GameEngine {
 
   // ---- RENDERING ----
 
-  render() {
+  /** @param alpha - how far between the previous and current step to draw (0..1) */
+  render(alpha = 1) {
+    this.alpha = alpha;
     const ctx = this.ctx;
     const w = this.canvas.width;
     const h = this.canvas.height;
 
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.fillStyle = DARK_BG;
     ctx.fillRect(0, 0, w, h);
 
+    // Everything else is drawn in world units
+    ctx.setTransform(this.scale, 0, 0, this.scale, this.offsetX, this.offsetY);
     this.drawStars(ctx);
     this.drawFarBuildings(ctx);
     this.drawMidBuildings(ctx);
     this.drawGround(ctx);
+
+    // Gameplay is clipped to the world so a wider screen never shows more
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, this.view.top, WORLD_WIDTH, this.view.height);
+    ctx.clip();
     this.drawObstacles(ctx);
     this.drawFluffle(ctx);
     this.drawParticles(ctx);
+    ctx.restore();
 
-    // Scanline overlay — pre-rendered
+    // Scanline overlay — pre-rendered, in canvas pixels
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     if (this.scanlineCanvas) {
       ctx.drawImage(this.scanlineCanvas, 0, 0);
     }
@@ -622,38 +678,40 @@ export class GameEngine {
   private drawFarBuildings(ctx: CanvasRenderingContext2D) {
     if (!this.farBuildingCanvas) return;
     const tw = this.farBuildingWidth;
-    const offset = this.bgOffset1 % tw;
-    ctx.drawImage(this.farBuildingCanvas, -offset, 0);
-    ctx.drawImage(this.farBuildingCanvas, tw - offset, 0);
+    const offset = this.lerp(this.prev.bg1, this.bgOffset1) % tw;
+    ctx.drawImage(this.farBuildingCanvas, this.view.left - offset, 0);
+    ctx.drawImage(this.farBuildingCanvas, this.view.left + tw - offset, 0);
   }
 
   private drawMidBuildings(ctx: CanvasRenderingContext2D) {
     if (!this.midBuildingCanvas) return;
     const tw = this.midBuildingWidth;
-    const offset = this.bgOffset2 % tw;
-    ctx.drawImage(this.midBuildingCanvas, -offset, 0);
-    ctx.drawImage(this.midBuildingCanvas, tw - offset, 0);
+    const offset = this.lerp(this.prev.bg2, this.bgOffset2) % tw;
+    ctx.drawImage(this.midBuildingCanvas, this.view.left - offset, 0);
+    ctx.drawImage(this.midBuildingCanvas, this.view.left + tw - offset, 0);
   }
 
   private drawGround(ctx: CanvasRenderingContext2D) {
-    const w = this.canvas.width;
+    const left = this.view.left;
+    const right = left + this.view.width;
+    const bottom = this.view.top + this.view.height;
 
     ctx.fillStyle = "#0f0f2a";
-    ctx.fillRect(0, this.groundY, w, this.groundOffset);
+    ctx.fillRect(left, GROUND_Y, this.view.width, bottom - GROUND_Y);
 
     // Ground line — single glow using two lines instead of shadowBlur
     ctx.strokeStyle = "rgba(0,240,255,0.3)";
     ctx.lineWidth = 6;
     ctx.beginPath();
-    ctx.moveTo(0, this.groundY);
-    ctx.lineTo(w, this.groundY);
+    ctx.moveTo(left, GROUND_Y);
+    ctx.lineTo(right, GROUND_Y);
     ctx.stroke();
 
     ctx.strokeStyle = NEON_CYAN;
     ctx.lineWidth = 2;
     ctx.beginPath();
-    ctx.moveTo(0, this.groundY);
-    ctx.lineTo(w, this.groundY);
+    ctx.moveTo(left, GROUND_Y);
+    ctx.lineTo(right, GROUND_Y);
     ctx.stroke();
 
     // Grid lines — batched into single path
@@ -661,32 +719,37 @@ export class GameEngine {
     ctx.lineWidth = 1;
     ctx.beginPath();
     const gridSpacing = 60;
-    const offset = this.bgOffset3 % gridSpacing;
-    for (let gx = -offset; gx < w; gx += gridSpacing) {
-      ctx.moveTo(gx, this.groundY);
-      ctx.lineTo(gx, this.groundY + this.groundOffset);
+    const offset = this.lerp(this.prev.bg3, this.bgOffset3) % gridSpacing;
+    const firstX = Math.floor((left + offset) / gridSpacing) * gridSpacing - offset;
+    for (let gx = firstX; gx < right; gx += gridSpacing) {
+      ctx.moveTo(gx, GROUND_Y);
+      ctx.lineTo(gx, bottom);
     }
-    for (let gy = this.groundY + 20; gy < this.groundY + this.groundOffset; gy += 20) {
-      ctx.moveTo(0, gy);
-      ctx.lineTo(w, gy);
+    for (let gy = GROUND_Y + 20; gy < bottom; gy += 20) {
+      ctx.moveTo(left, gy);
+      ctx.lineTo(right, gy);
     }
     ctx.stroke();
   }
 
   private drawObstacles(ctx: CanvasRenderingContext2D) {
-    for (const obs of this.obstacles) {
+    for (const obs of this.sim.obstacles) {
+      const pal = OBSTACLE_PALETTES[obs.palette];
+      const prevX = this.prev.obstacleX.get(obs.id) ?? obs.x;
       ctx.save();
+      // Obstacles only move horizontally, so interpolation is a translate
+      ctx.translate(this.lerp(prevX, obs.x) - obs.x, 0);
       switch (obs.style) {
-        case "trashcan": this.drawTrashcanObstacle(ctx, obs); break;
-        case "crate": this.drawCrateObstacle(ctx, obs); break;
-        case "car": this.drawCarObstacle(ctx, obs); break;
-        case "barrier": this.drawBarrierObstacle(ctx, obs); break;
+        case "trashcan": this.drawTrashcanObstacle(ctx, obs, pal); break;
+        case "crate": this.drawCrateObstacle(ctx, obs, pal); break;
+        case "car": this.drawCarObstacle(ctx, obs, pal); break;
+        case "barrier": this.drawBarrierObstacle(ctx, obs, pal); break;
       }
       ctx.restore();
     }
   }
 
-  private drawTrashcanObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  private drawTrashcanObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle, pal: ObstaclePalette) {
     const cx = obs.x + obs.width / 2;
 
     // Body — flat metallic with edge shading
@@ -723,7 +786,7 @@ export class GameEngine {
 
     // Neon stripe — glow via thicker transparent line behind
     const stripeY = obs.y + obs.height * 0.5;
-    ctx.strokeStyle = obs.color;
+    ctx.strokeStyle = pal.color;
     ctx.globalAlpha = 0.3;
     ctx.lineWidth = 4;
     ctx.beginPath();
@@ -747,7 +810,7 @@ export class GameEngine {
     ctx.fillRect(obs.x + 4, obs.y + obs.height - 3, obs.width - 8, 3);
   }
 
-  private drawCrateObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  private drawCrateObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle, pal: ObstaclePalette) {
     // Main body — wooden brown
     ctx.fillStyle = "#5c4a35";
     ctx.fillRect(obs.x, obs.y, obs.width, obs.height);
@@ -792,13 +855,13 @@ export class GameEngine {
     }
 
     // Neon stencil
-    ctx.fillStyle = obs.color;
+    ctx.fillStyle = pal.color;
     ctx.font = `bold ${Math.min(12, obs.width * 0.3)}px monospace`;
     ctx.textAlign = "center";
     ctx.fillText("!", obs.x + obs.width / 2, obs.y + obs.height * 0.65);
 
     // Neon edge — glow via layered strokes
-    ctx.strokeStyle = obs.color;
+    ctx.strokeStyle = pal.color;
     ctx.globalAlpha = 0.2;
     ctx.lineWidth = 3;
     ctx.strokeRect(obs.x + 1, obs.y + 1, obs.width - 2, obs.height - 2);
@@ -807,13 +870,13 @@ export class GameEngine {
     ctx.strokeRect(obs.x + 1, obs.y + 1, obs.width - 2, obs.height - 2);
   }
 
-  private drawCarObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  private drawCarObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle, pal: ObstaclePalette) {
     const carBottom = obs.y + obs.height;
     const bodyH = obs.height * 0.65;
     const roofH = obs.height * 0.35;
 
     // Under-glow — simple rect with alpha
-    ctx.fillStyle = obs.color;
+    ctx.fillStyle = pal.color;
     ctx.globalAlpha = 0.3;
     ctx.fillRect(obs.x + 4, carBottom - 4, obs.width - 8, 4);
     ctx.globalAlpha = 1;
@@ -844,7 +907,7 @@ export class GameEngine {
     ctx.fillRect(winX + 2, obs.y + 3, winW * 0.35, winH - 2);
 
     // Headlight
-    ctx.fillStyle = obs.accentColor;
+    ctx.fillStyle = pal.accent;
     ctx.beginPath();
     ctx.ellipse(obs.x + obs.width - 3, obs.y + roofH + bodyH * 0.3, 2, 4, 0, 0, Math.PI * 2);
     ctx.fill();
@@ -857,7 +920,7 @@ export class GameEngine {
 
     // Neon trim — glow via layered lines
     const trimY = obs.y + roofH + bodyH * 0.45;
-    ctx.strokeStyle = obs.color;
+    ctx.strokeStyle = pal.color;
     ctx.globalAlpha = 0.25;
     ctx.lineWidth = 3;
     ctx.beginPath();
@@ -875,12 +938,12 @@ export class GameEngine {
     for (const px of [obs.x + obs.width * 0.2, obs.x + obs.width * 0.75]) {
       ctx.fillStyle = "#1a1a2e";
       ctx.fillRect(px - 4, carBottom - 4, 8, 4);
-      ctx.fillStyle = obs.color;
+      ctx.fillStyle = pal.color;
       ctx.fillRect(px - 3, carBottom - 2, 6, 1);
     }
   }
 
-  private drawBarrierObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle) {
+  private drawBarrierObstacle(ctx: CanvasRenderingContext2D, obs: Obstacle, pal: ObstaclePalette) {
     // Barrier body — tapered
     ctx.fillStyle = "#3a3a48";
     ctx.beginPath();
@@ -904,7 +967,7 @@ export class GameEngine {
     ctx.lineTo(obs.x, obs.y + obs.height);
     ctx.closePath();
     ctx.clip();
-    ctx.fillStyle = obs.accentColor;
+    ctx.fillStyle = pal.accent;
     ctx.globalAlpha = 0.15;
     const stripeW = 8;
     for (let sx = obs.x - obs.height; sx < obs.x + obs.width + obs.height; sx += stripeW * 2) {
@@ -920,14 +983,14 @@ export class GameEngine {
     ctx.restore();
 
     // Top neon strip — glow via layered rect
-    ctx.fillStyle = obs.color;
+    ctx.fillStyle = pal.color;
     ctx.globalAlpha = 0.3;
     ctx.fillRect(obs.x + 3, obs.y - 1, obs.width - 6, 5);
     ctx.globalAlpha = 1;
     ctx.fillRect(obs.x + 4, obs.y, obs.width - 8, 3);
 
     // Reflective dots
-    ctx.fillStyle = obs.accentColor;
+    ctx.fillStyle = pal.accent;
     const dotY = obs.y + obs.height * 0.45;
     const dotSpacing = Math.max(10, obs.width / 4);
     for (let dx = obs.x + dotSpacing / 2; dx < obs.x + obs.width; dx += dotSpacing) {
@@ -948,10 +1011,11 @@ export class GameEngine {
   }
 
   private drawFluffle(ctx: CanvasRenderingContext2D) {
-    const f = this.fluffle;
+    const f = this.sim.player;
     const cx = f.x + f.width / 2;
 
     ctx.save();
+    ctx.translate(0, this.lerp(this.prev.playerY, f.y) - f.y);
 
     if (f.state === "crashed") {
       ctx.globalAlpha = 0.7;
@@ -967,9 +1031,9 @@ export class GameEngine {
     const outlineColor = isCrashed ? NEON_PINK : NEON_CYAN;
 
     // --- SPEED TRAIL ---
-    if (!isCrashed && this.speed > OBSTACLE_SPEED_START + 1) {
-      const trailAlpha = Math.min(0.4, (this.speed - OBSTACLE_SPEED_START) * 0.03);
-      const trailLen = Math.min(40, (this.speed - OBSTACLE_SPEED_START) * 5);
+    if (!isCrashed && this.sim.speed > OBSTACLE_SPEED_START + 1) {
+      const trailAlpha = Math.min(0.4, (this.sim.speed - OBSTACLE_SPEED_START) * 0.03);
+      const trailLen = Math.min(40, (this.sim.speed - OBSTACLE_SPEED_START) * 5);
       ctx.strokeStyle = NEON_CYAN;
       ctx.globalAlpha = trailAlpha;
       ctx.lineWidth = 1.5;
@@ -1145,7 +1209,7 @@ export class GameEngine {
 
     // --- LEGS ---
     if (f.state === "running") {
-      const legPhase = Math.sin(f.frame * 2);
+      const legPhase = Math.sin(this.runAnim * 2);
       const legY = f.y + f.height;
 
       ctx.strokeStyle = hoodColor;
@@ -0,0 +1,46 @@
+import type { TicketEntry } from "@/shared/tickets.mjs";
+
+// The operator's read API lives on the same host as its WebSocket
+const OPERATOR_HTTP_URL = (
+  process.env.NEXT_PUBLIC_OPERATOR_URL || "wss://operator-production-4127.up.railway.app"
+).replace(/^ws/, "http");
+
+// A player's entry in one tournament, as served by /players/:address/history.
+// Wei amounts are decimal strings.
+export interface PlayerHistoryItem {
+  tournamentId: number;
+  entryFee: string;
+  endTime: number;
+  prizePool: string;
+  ended: boolean;
+  cancelled: boolean;
+  winner: string;
+  scores: number[];
+  attemptsUsed: number;
+  tickets: number;
+  totalScore: number;
+  bestScore: number;
+  ticketEntries: TicketEntry[];
+}
+
+async function get<T>(path: string): Promise<T> {
+  const res = await fetch(OPERATOR_HTTP_URL + path);
+  if (!res.ok) throw new Error(`Operator API ${path} returned ${res.status}`);
+  return res.json();
+}
+
+// Ticket entries, best first
+export async function fetchLeaderboard(tournamentId: number): Promise<TicketEntry[]> {
+  const body = await get<{ entries: TicketEntry[] }>(
+    `/tournaments/${tournamentId}/leaderboard`
+  );
+  return body.entries;
+}
+
+// Newest tournament first. Not complete if the operator's index starts after
+// some tournaments were created; those entries are missing from the history.
+export async function fetchPlayerHistory(
+  address: string
+): Promise<{ history: PlayerHistoryItem[]; complete: boolean }> {
+  return get<{ history: PlayerHistoryItem[]; complete: boolean }>(`/players/${address}/history`);
+}
@@ -1,18 +1,187 @@
-type MessageHandler = (msg: Record<string, unknown>) => void;
-type SignMessageFn = (args: { message: string }) => Promise<`0x${string}`>;
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { serializeReplay, type Replay } from "@/shared/replay.mjs";
+import { RULES_VERSION } from "@/shared/rules.mjs";
+import {
+  SESSION_KEY_SCOPE,
+  SESSION_KEY_TTL_MS,
+  delegationTypedData,
+  type Delegation,
+} from "@/shared/session-key.mjs";
+import {
+  PROTOCOL_VERSION,
+  validateServerMessage,
+  type ClientMessage,
+  type ServerMessage,
+  type ServerMessageOf,
+  type ObstaclePassedMessage,
+  type HeartbeatMessage,
+  type CrashMessage,
+  type ObstacleAckMessage,
+  type ObstacleNackMessage,
+  type ScoreRecordedMessage,
+  type ScoreFailedMessage,
+} from "@/shared/protocol.mjs";
+import { megaethTestnet } from "@/lib/chains";
+
+type ServerMessageType = ServerMessage["type"];
+type MessageHandler<T extends ServerMessageType> = (msg: ServerMessageOf<T>) => void;
+// How handlers are stored — dispatch only calls them with their own type
+type AnyMessageHandler = (msg: ServerMessage) => void;
+type StampedMessage = ObstaclePassedMessage | HeartbeatMessage | CrashMessage;
+export type DelegationTypedData = ReturnType<typeof delegationTypedData>;
+type SignTypedDataFn = (args: DelegationTypedData) => Promise<`0x${string}`>;
+
+// Message payloads as the rest of the app sees them (see protocol.mjs)
+export type ScoreRecord = Omit<ScoreRecordedMessage, "type">;
+export type ScoreFailure = Omit<ScoreFailedMessage, "type">;
+export type ObstacleAck = Omit<ObstacleAckMessage, "type">;
+export type ObstacleNack = Omit<ObstacleNackMessage, "type">;
+export type { ObstacleNackReason } from "@/shared/protocol.mjs";
+
+// Connection state for the UI, pushed to onStatusChange handlers
+export interface OperatorStatus {
+  connected: boolean;
+  authenticated: boolean;
+  // Reconnects tried since the connection was last up
+  reconnectAttempts: number;
+  // Out of reconnect attempts; only reconnect() tries again
+  gaveUp: boolean;
+  // The operator runs another protocol or rules version — reload the page
+  versionMismatch: boolean;
+}
+
+// A request waiting for its reply; replies arrive in the order requests were sent
+interface ReplyWaiter {
+  message: ClientMessage;
+  replyType: ServerMessageType;
+  // A reply that answers this request with a failure
+  failType?: ServerMessageType;
+  // Narrows which replies answer it, e.g. only ones for the same attempt
+  accepts?: (msg: ServerMessage) => boolean;
+  // The operator answers a repeat with the original reply, so the request is
+  // sent again on the next connection instead of being lost with this one
+  resend?: boolean;
+  resolve: (msg: ServerMessage) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Scores are answered once mined, which can take a few fee bumps on the operator side
+const OPERATOR_REPLY_TIMEOUT_MS = 120000;
+
+// Round trips per clock sync; the fastest one gives the best offset estimate
+const CLOCK_SYNC_SAMPLES = 3;
+
+const VERSION_MISMATCH_MESSAGE = "Game version out of date — reload the page";
+const UNREACHABLE_MESSAGE = "Can't reach the game server — try again once it reconnects";
+
+// Replies about another attempt — a late answer for an earlier run — don't settle this one
+const forAttempt = (attemptId: string) => (msg: ServerMessage) =>
+  !("attemptId" in msg) || msg.attemptId === undefined || msg.attemptId === attemptId;
+
+// Session token from the last sign-in, reused across reconnects and reloads
+const SESSION_STORAGE_KEY = "megarally:operator-session";
+// How long a signed sign-in message stays valid
+const SIWE_MESSAGE_TTL_MS = 5 * 60 * 1000;
+
+interface StoredSession {
+  address: string;
+  token: string;
+  expiresAt: number;
+}
+
+// Browser key that signs sign-in challenges for the wallet (see session-key.mjs).
+// It can only sign in to the operator, so keeping it in localStorage is an
+// acceptable trade for not prompting the wallet on every connect.
+const SESSION_KEY_STORAGE_KEY = "megarally:session-key";
+// Replace the key a little before the operator would refuse it
+const SESSION_KEY_RENEW_MARGIN_MS = 60 * 1000;
+
+interface StoredSessionKey {
+  address: string; // the wallet that delegated to it
+  privateKey: `0x${string}`;
+  delegation: Delegation;
+  signature: `0x${string}`; // the wallet's signature over the delegation
+}
+
+// Gameplay messages the operator hasn't answered yet. They're kept in storage
+// until it does, so a reload or a dropped connection can't lose them — a lost
+// CRASH leaves the attempt hanging until the operator gives up on it. The next
+// authenticated connection resumes the attempt and replays them; the operator
+// answers anything it already has by seq with its original reply.
+const OUTBOX_STORAGE_KEY = "megarally:outbox";
+// The replay goes out one message at a time this far apart, and a CRASH the
+// operator rate-limited is sent again after the retry delay. Both keep well
+// inside its limit of 10 messages a second.
+const OUTBOX_REPLAY_INTERVAL_MS = 150;
+const RATE_LIMIT_RETRY_MS = 1000;
+
+type OutboxMessage = ObstaclePassedMessage | CrashMessage;
+
+interface Outbox {
+  address: string; // the wallet playing the attempt, lowercase
+  attemptId: string;
+  resumeToken: string; // from ATTEMPT_STARTED, what RESUME needs to reattach
+  messages: OutboxMessage[];
+}
+
+function readStorage<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be unavailable (private mode) — we'll just sign again next time
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {}
+}
+
+function removeStorage(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch {}
+}
 
 export class OperatorClient {
   private ws: WebSocket | null = null;
   private url: string;
-  private handlers: Map<string, MessageHandler[]> = new Map();
+  private handlers: Map<ServerMessageType, AnyMessageHandler[]> = new Map();
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private connected = false;
   private authenticated = false;
+  // Set when the operator speaks another protocol version or plays by
+  // different rules; nothing we send would score
+  private versionMismatch = false;
+  private waiters: ReplyWaiter[] = [];
+  private statusHandlers: Set<(status: OperatorStatus) => void> = new Set();
+
+  // Gameplay messages are numbered per attempt so the operator can drop repeats
+  private seq = 0;
+  // The operator's id for the attempt being played, once it has started
+  private attemptId: string | null = null;
+  // Operator clock minus ours, measured with CLOCK_SYNC after each auth
+  private clockOffset = 0;
+  private bestSyncRtt = Infinity;
+  // The attempt in progress and what the operator hasn't answered of it
+  private outbox: Outbox | null = null;
+  // Waiting on RESUME and the outbox replay; gameplay holds until the operator
+  // has the attempt back and everything it missed, so seqs still arrive in order
+  private resuming = false;
   private address: string | null = null;
-  private signMessage: SignMessageFn | null = null;
+  private signTypedData: SignTypedDataFn | null = null;
+  // Kept so an expired session can fall back to signing on the same connection
+  private challengeNonce: string | null = null;
+  // A refused session key is replaced once per challenge, not in a loop
+  private sessionKeyReplaced = false;
 
   // Queue messages until authenticated
-  private pendingMessages: Record<string, unknown>[] = [];
+  private pendingMessages: ClientMessage[] = [];
 
   // Exponential backoff state
   private reconnectAttempts = 0;
@@ -24,9 +193,20 @@ export class OperatorClient {
     this.url = url;
   }
 
-  setAuth(address: string, signMessage: SignMessageFn) {
+  // signTypedData is only used to delegate to a session key, about once a day.
+  // Auth belongs to the connection, so a different wallet gets a new one.
+  setAuth(address: string | null, signTypedData: SignTypedDataFn | null) {
+    const changed = address?.toLowerCase() !== this.address?.toLowerCase();
     this.address = address;
-    this.signMessage = signMessage;
+    this.signTypedData = signTypedData;
+    if (!changed) return;
+
+    if (this.authenticated) {
+      this.restart();
+    } else if (address && this.challengeNonce) {
+      // Connected without a wallet; answer the challenge we're holding
+      this.handleAuthChallenge(this.challengeNonce);
+    }
   }
 
   connect() {
@@ -38,34 +218,150 @@ export class OperatorClient {
       console.log("[operator] connected");
       this.connected = true;
       this.reconnectAttempts = 0;
+      this.emitStatus();
     };
 
     this.ws.onmessage = (event) => {
       try {
-        const msg = JSON.parse(event.data);
+        const checked = validateServerMessage(JSON.parse(event.data));
+        if (!checked.ok) {
+          console.error("[operator] dropped malformed message:", checked.error.message);
+          return;
+        }
+        const msg = checked.message;
 
         // Handle auth challenge from server
         if (msg.type === "AUTH_CHALLENGE") {
+          const mismatch =
+            msg.protocolVersion !== PROTOCOL_VERSION
+              ? `protocol mismatch: operator v${msg.protocolVersion}, client v${PROTOCOL_VERSION}`
+              : msg.rulesVersion !== RULES_VERSION
+                ? `rules mismatch: operator v${msg.rulesVersion}, client v${RULES_VERSION}`
+                : null;
+          if (mismatch) {
+            console.error(`[operator] ${mismatch}`);
+            this.versionMismatch = true;
+            const failure: ServerMessage = {
+              type: "AUTH_FAILED",
+              code: msg.protocolVersion !== PROTOCOL_VERSION ? "PROTOCOL_MISMATCH" : "RULES_MISMATCH",
+              message: VERSION_MISMATCH_MESSAGE,
+            };
+            this.settleWaiters(failure);
+            this.dispatch(failure);
+            this.emitStatus();
+            return;
+          }
+          this.challengeNonce = msg.nonce;
           this.handleAuthChallenge(msg.nonce);
           return;
         }
 
+        // Our stored session is gone; the challenge is still open, so sign in
+        if (msg.type === "AUTH_FAILED" && msg.code === "SESSION_EXPIRED") {
+          console.log("[operator] session expired, signing in again");
+          this.clearSession();
+          if (this.challengeNonce) this.signIn(this.challengeNonce);
+          return;
+        }
+
+        if (
+          msg.type === "AUTH_FAILED" &&
+          msg.code === "INVALID_SESSION_KEY" &&
+          !this.sessionKeyReplaced
+        ) {
+          console.log("[operator] session key refused, creating a new one");
+          this.sessionKeyReplaced = true;
+          removeStorage(SESSION_KEY_STORAGE_KEY);
+          if (this.challengeNonce) this.signIn(this.challengeNonce);
+          return;
+        }
+
         if (msg.type === "AUTH_OK") {
           this.authenticated = true;
+          this.challengeNonce = null;
+          this.sessionKeyReplaced = false;
+          this.saveSession(msg.sessionToken, msg.sessionExpiresAt);
           console.log("[operator] authenticated");
-          // Flush any queued messages
+          this.emitStatus();
+          this.syncClock();
+          // Reclaim the attempt first so queued gameplay lands on it — ours
+          // from before a reconnect, or one an earlier page load left unanswered
+          const outbox = readStorage<Outbox>(OUTBOX_STORAGE_KEY);
+          this.outbox = outbox?.address === msg.address && outbox.attemptId ? outbox : null;
+          if (this.outbox) {
+            this.resuming = true;
+            this.rawSend({ type: "RESUME", token: this.outbox.resumeToken });
+          } else {
+            this.flushPending();
+          }
+        }
+
+        if (msg.type === "RESUMED") {
+          console.log("[operator] attempt resumed at seq", msg.seq);
+          // Everything up to msg.seq already reached the operator
+          this.updateOutbox((m) => m.seq > msg.seq);
+          this.replayOutbox(msg.seq);
+        }
+
+        if (msg.type === "RESUME_FAILED") {
+          console.warn("[operator] could not resume attempt:", msg.message);
+          this.resuming = false;
+          // The attempt is over. If we crashed, send the CRASH again: the
+          // operator answers it with the score the attempt ended with.
+          // Nothing else still in the outbox can count now.
+          const crash = this.outbox?.messages.find((m) => m.type === "CRASH");
+          if (crash) {
+            this.rawSend(crash);
+          } else {
+            this.setOutbox(null);
+            this.rejectWaiters("CRASH", msg.message);
+          }
           this.flushPending();
         }
 
+        // Being rate-limited isn't an answer: the message stays in the outbox
+        if (
+          (msg.type === "OBSTACLE_ACK" ||
+            (msg.type === "OBSTACLE_NACK" && msg.reason !== "RATE_LIMITED")) &&
+          msg.attemptId === this.outbox?.attemptId
+        ) {
+          this.updateOutbox((m) => !(m.type === "OBSTACLE_PASSED" && m.seq === msg.seq));
+        }
+
+        if (
+          msg.type === "ERROR" &&
+          msg.code === "RATE_LIMITED" &&
+          msg.replyTo === "CRASH" &&
+          msg.attemptId === this.outbox?.attemptId
+        ) {
+          // The crash still stands; try again and leave crash() waiting
+          this.retryCrash();
+          return;
+        }
+
+        // The CRASH was answered, which settles the attempt
+        if (
+          (msg.type === "SCORE_RECORDED" ||
+            msg.type === "SCORE_FAILED" ||
+            (msg.type === "ERROR" && msg.replyTo === "CRASH")) &&
+          msg.attemptId === this.outbox?.attemptId
+        ) {
+          this.setOutbox(null);
+        }
+
+        if (msg.type === "CLOCK_SYNC") {
+          this.handleClockSync(msg);
+          return;
+        }
+
         if (msg.type === "AUTH_FAILED") {
-          console.error("[operator] auth failed:", msg.message);
+          console.error(`[operator] auth failed (${msg.code}):`, msg.message);
           this.authenticated = false;
+          this.emitStatus();
         }
 
-        const handlers = this.handlers.get(msg.type) || [];
-        for (const handler of handlers) {
-          handler(msg);
-        }
+        this.settleWaiters(msg);
+        this.dispatch(msg);
       } catch (err) {
         console.error("[operator] message parse error:", err);
       }
@@ -73,8 +369,18 @@ export class OperatorClient {
 
     this.ws.onclose = () => {
       console.log("[operator] disconnected");
+      // Nothing queues for a dead socket: heartbeats from the outage would
+      // only burst out after reconnect, and the outbox keeps what matters
+      this.ws = null;
       this.connected = false;
       this.authenticated = false;
+      this.resuming = false;
+      // Requests that are safe to repeat go out again once we're back
+      for (const w of this.waiters) {
+        if (w.resend && !this.pendingMessages.includes(w.message)) {
+          this.pendingMessages.push(w.message);
+        }
+      }
 
       // Exponential backoff with jitter
       if (this.reconnectAttempts < this.maxReconnectAttempts) {
@@ -93,6 +399,7 @@ export class OperatorClient {
           "[operator] max reconnect attempts reached, giving up"
         );
       }
+      this.emitStatus();
     };
 
     this.ws.onerror = (err) => {
@@ -100,21 +407,249 @@ export class OperatorClient {
     };
   }
 
-  private async handleAuthChallenge(nonce: string) {
-    if (!this.address || !this.signMessage) {
-      console.warn("[operator] no wallet set, cannot authenticate");
+  private handleAuthChallenge(nonce: string) {
+    if (!this.address || !this.signTypedData) {
+      console.log("[operator] no wallet set, authenticating once there is one");
       return;
     }
 
+    const session = this.loadSession();
+    if (session) {
+      this.rawSend({
+        type: "AUTH",
+        sessionToken: session.token,
+        protocolVersion: PROTOCOL_VERSION,
+        rulesVersion: RULES_VERSION,
+      });
+      return;
+    }
+    this.signIn(nonce);
+  }
+
+  // Sign-In with Ethereum (EIP-4361), bound to this site, chain and challenge.
+  // The session key signs it, so the wallet is only prompted for a new key.
+  private async signIn(nonce: string) {
+    if (!this.address) return;
+
     try {
-      const message = `MegaRally auth: ${nonce}`;
-      const signature = await this.signMessage({ message });
-      this.rawSend({ type: "AUTH", address: this.address, signature });
+      const key = await this.sessionKey();
+      const issuedAt = new Date();
+      const message = createSiweMessage({
+        address: this.address as `0x${string}`,
+        chainId: megaethTestnet.id,
+        domain: window.location.host,
+        uri: window.location.origin,
+        version: "1",
+        nonce,
+        statement: "Sign in to MegaRally to play tournament attempts.",
+        issuedAt,
+        expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS),
+      });
+      const signature = await privateKeyToAccount(key.privateKey).signMessage({ message });
+      this.rawSend({
+        type: "AUTH",
+        message,
+        signature,
+        delegation: { ...key.delegation, signature: key.signature },
+        protocolVersion: PROTOCOL_VERSION,
+        rulesVersion: RULES_VERSION,
+      });
     } catch (err) {
       console.error("[operator] failed to sign auth:", err);
     }
   }
 
+  // The stored session key for this wallet, or a new one the wallet delegates to
+  private async sessionKey(): Promise<StoredSessionKey> {
+    const stored = readStorage<StoredSessionKey>(SESSION_KEY_STORAGE_KEY);
+    if (
+      stored &&
+      stored.address === this.address?.toLowerCase() &&
+      stored.delegation.domain === window.location.host &&
+      stored.delegation.expiresAt > Date.now() + SESSION_KEY_RENEW_MARGIN_MS
+    ) {
+      return stored;
+    }
+
+    if (!this.address || !this.signTypedData) throw new Error("No wallet to authorize a session key");
+    const privateKey = generatePrivateKey();
+    const delegation: Delegation = {
+      sessionKey: privateKeyToAccount(privateKey).address,
+      domain: window.location.host,
+      scope: SESSION_KEY_SCOPE,
+      expiresAt: Date.now() + SESSION_KEY_TTL_MS,
+    };
+    const signature = await this.signTypedData(
+      delegationTypedData(megaethTestnet.id, delegation)
+    );
+    const key: StoredSessionKey = {
+      address: this.address.toLowerCase(),
+      privateKey,
+      delegation,
+      signature,
+    };
+    writeStorage(SESSION_KEY_STORAGE_KEY, key);
+    return key;
+  }
+
+  private loadSession(): StoredSession | null {
+    const session = readStorage<StoredSession>(SESSION_STORAGE_KEY);
+    if (!session) return null;
+    if (session.address !== this.address?.toLowerCase()) return null;
+    if (session.expiresAt <= Date.now()) return null;
+    return session;
+  }
+
+  private saveSession(token: string, expiresAt: number) {
+    if (!this.address) return;
+    writeStorage(SESSION_STORAGE_KEY, {
+      address: this.address.toLowerCase(),
+      token,
+      expiresAt,
+    } satisfies StoredSession);
+  }
+
+  private clearSession() {
+    removeStorage(SESSION_STORAGE_KEY);
+  }
+
+  private syncClock() {
+    this.bestSyncRtt = Infinity;
+    for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) {
+      this.rawSend({ type: "CLOCK_SYNC", clientTime: Date.now() });
+    }
+  }
+
+  private handleClockSync(msg: ServerMessageOf<"CLOCK_SYNC">) {
+    const now = Date.now();
+    const rtt = now - msg.clientTime;
+    if (rtt >= this.bestSyncRtt) return;
+    this.bestSyncRtt = rtt;
+    // The operator read its clock roughly halfway through the round trip
+    this.clockOffset = msg.serverTime + rtt / 2 - now;
+  }
+
+  // Stamp a gameplay message with its sequence number and send time (operator clock)
+  private stamp<T extends StampedMessage>(msg: Omit<T, "seq" | "at">): T {
+    return { ...msg, seq: ++this.seq, at: Date.now() + this.clockOffset } as T;
+  }
+
+  private dispatch(msg: ServerMessage) {
+    const handlers = this.handlers.get(msg.type) || [];
+    for (const handler of [...handlers]) {
+      handler(msg);
+    }
+  }
+
+  // Hand a reply to the oldest request waiting for it. An ERROR answers the
+  // oldest request of the type it names in replyTo; a failed auth means none
+  // will be answered. A request's failType rejects it with the reply's reason,
+  // and its accepts() can turn away replies that are for something else.
+  private settleWaiters(msg: ServerMessage) {
+    if (msg.type === "AUTH_FAILED") {
+      for (const w of this.waiters.splice(0)) {
+        clearTimeout(w.timer);
+        w.reject(new Error(msg.message));
+      }
+      return;
+    }
+    const answers = (w: ReplyWaiter) => !w.accepts || w.accepts(msg);
+    const idx =
+      msg.type === "ERROR"
+        ? this.waiters.findIndex(
+            (w) => (!msg.replyTo || w.message.type === msg.replyTo) && answers(w)
+          )
+        : this.waiters.findIndex(
+            (w) => (w.replyType === msg.type || w.failType === msg.type) && answers(w)
+          );
+    const waiter = idx >= 0 ? this.waiters.splice(idx, 1)[0] : undefined;
+    if (!waiter) {
+      if (msg.type === "ERROR") console.warn(`[operator] ${msg.code}:`, msg.message);
+      return;
+    }
+    clearTimeout(waiter.timer);
+    if (msg.type === "ERROR") {
+      waiter.reject(new Error(msg.message));
+    } else if (msg.type === "SCORE_FAILED") {
+      waiter.reject(new Error(msg.reason));
+    } else {
+      waiter.resolve(msg);
+    }
+  }
+
+  private request<T extends ServerMessageType>(
+    msg: ClientMessage,
+    replyType: T,
+    options: Pick<ReplyWaiter, "failType" | "accepts" | "resend"> = {}
+  ): Promise<ServerMessageOf<T>> {
+    if (this.versionMismatch) {
+      return Promise.reject(new Error(VERSION_MISMATCH_MESSAGE));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: ReplyWaiter = {
+        ...options,
+        message: msg,
+        replyType,
+        resolve: (reply) => resolve(reply as ServerMessageOf<T>),
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new Error("No reply from the operator"));
+        }, OPERATOR_REPLY_TIMEOUT_MS),
+      };
+      this.waiters.push(waiter);
+      this.send(msg);
+    });
+  }
+
+  private rejectWaiters(requestType: ClientMessage["type"], message: string) {
+    this.waiters = this.waiters.filter((w) => {
+      if (w.message.type !== requestType) return true;
+      clearTimeout(w.timer);
+      w.reject(new Error(message));
+      return false;
+    });
+  }
+
+  private setOutbox(outbox: Outbox | null) {
+    this.outbox = outbox;
+    if (outbox) writeStorage(OUTBOX_STORAGE_KEY, outbox);
+    else removeStorage(OUTBOX_STORAGE_KEY);
+  }
+
+  private updateOutbox(keep: (msg: OutboxMessage) => boolean) {
+    if (!this.outbox) return;
+    this.setOutbox({ ...this.outbox, messages: this.outbox.messages.filter(keep) });
+  }
+
+  // Resend the outbox after a resume, oldest first and paced for the
+  // operator's rate limit. Messages added meanwhile join the end of the replay.
+  private replayOutbox(afterSeq: number) {
+    const next = this.outbox?.messages.find((m) => m.seq > afterSeq);
+    if (!next) {
+      this.resuming = false;
+      this.flushPending();
+      return;
+    }
+    console.log("[operator] replaying from outbox:", next.type, next.seq);
+    this.rawSend(next);
+    const ws = this.ws;
+    setTimeout(() => {
+      // A new connection resumes and replays for itself
+      if (this.ws === ws && this.resuming) this.replayOutbox(next.seq);
+    }, OUTBOX_REPLAY_INTERVAL_MS);
+  }
+
+  private retryCrash() {
+    const ws = this.ws;
+    setTimeout(() => {
+      const crash = this.outbox?.messages.find((m) => m.type === "CRASH");
+      if (!crash || this.ws !== ws || !this.authenticated || this.resuming) return;
+      console.log("[operator] retrying rate-limited crash");
+      this.rawSend(crash);
+    }, RATE_LIMIT_RETRY_MS);
+  }
+
   private flushPending() {
     const queued = this.pendingMessages.splice(0);
     for (const msg of queued) {
@@ -123,35 +658,122 @@ export class OperatorClient {
     }
   }
 
+  // Drop the connection and open a new one straight away. Anything in flight
+  // belonged to the old connection's wallet, so it fails rather than carrying over.
+  private restart() {
+    this.closeSocket();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.connected = false;
+    this.authenticated = false;
+    this.challengeNonce = null;
+    // The stored outbox stays for the old wallet's next connection
+    this.outbox = null;
+    this.attemptId = null;
+    this.resuming = false;
+    this.pendingMessages = [];
+    for (const w of this.waiters.splice(0)) {
+      clearTimeout(w.timer);
+      w.reject(new Error("Wallet changed"));
+    }
+    this.reconnectAttempts = 0;
+    this.emitStatus();
+    this.connect();
+  }
+
+  // Try again after giving up
+  reconnect() {
+    if (this.connected) return;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectAttempts = 0;
+    this.emitStatus();
+    this.connect();
+  }
+
+  // Close without the reconnect the socket's onclose would schedule, and
+  // without its late events landing on the connection that replaces it
+  private closeSocket() {
+    const ws = this.ws;
+    if (ws) {
+      ws.onmessage = null;
+      ws.onclose = null;
+      ws.close();
+    }
+    this.ws = null;
+  }
+
   disconnect() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
     }
     this.reconnectAttempts = this.maxReconnectAttempts;
-    this.ws?.close();
-    this.ws = null;
+    this.closeSocket();
+    console.log("[operator] disconnected");
     this.connected = false;
     this.authenticated = false;
     this.pendingMessages = [];
+    for (const w of this.waiters.splice(0)) {
+      clearTimeout(w.timer);
+      w.reject(new Error("Disconnected from the operator"));
+    }
+    this.emitStatus();
+  }
+
+  getStatus(): OperatorStatus {
+    return {
+      connected: this.connected,
+      authenticated: this.authenticated,
+      reconnectAttempts: this.reconnectAttempts,
+      gaveUp: !this.connected && this.reconnectAttempts >= this.maxReconnectAttempts,
+      versionMismatch: this.versionMismatch,
+    };
   }
 
-  on(type: string, handler: MessageHandler) {
+  // Returns an unsubscribe function
+  onStatusChange(handler: (status: OperatorStatus) => void): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  private emitStatus() {
+    const status = this.getStatus();
+    for (const handler of [...this.statusHandlers]) handler(status);
+  }
+
+  // Handlers get the message already validated and narrowed to its type.
+  // Returns an unsubscribe function.
+  on<T extends ServerMessageType>(type: T, handler: MessageHandler<T>): () => void {
     if (!this.handlers.has(type)) {
       this.handlers.set(type, []);
     }
-    this.handlers.get(type)!.push(handler);
+    this.handlers.get(type)!.push(handler as unknown as AnyMessageHandler);
+    return () => this.off(type, handler);
   }
 
-  off(type: string, handler: MessageHandler) {
+  off<T extends ServerMessageType>(type: T, handler: MessageHandler<T>) {
     const handlers = this.handlers.get(type);
     if (handlers) {
-      const idx = handlers.indexOf(handler);
+      const idx = handlers.indexOf(handler as unknown as AnyMessageHandler);
       if (idx >= 0) handlers.splice(idx, 1);
     }
   }
 
+  // The operator answers every OBSTACLE_PASSED with one of these.
+  // Both return an unsubscribe function.
+  onObstacleAck(handler: (ack: ObstacleAck) => void): () => void {
+    return this.on("OBSTACLE_ACK", handler);
+  }
+
+  onObstacleNack(handler: (nack: ObstacleNack) => void): () => void {
+    return this.on("OBSTACLE_NACK", handler);
+  }
+
+  // Returns an unsubscribe function
+  onScoreFailed(handler: (failure: ScoreFailure) => void): () => void {
+    return this.on("SCORE_FAILED", handler);
+  }
+
   // Low-level send — just checks WS is open
-  private rawSend(msg: Record<string, unknown>) {
+  private rawSend(msg: ClientMessage) {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(msg));
     } else {
@@ -159,11 +781,19 @@ export class OperatorClient {
     }
   }
 
-  // Game message send — queues if not authenticated yet
-  send(msg: Record<string, unknown>) {
-    if (this.authenticated && this.ws?.readyState === WebSocket.OPEN) {
+  // Game message send — queues if not authenticated yet. Obstacles and the
+  // crash also go to the outbox, which replays them if they never get an answer.
+  send(msg: ClientMessage) {
+    const durable = msg.type === "OBSTACLE_PASSED" || msg.type === "CRASH";
+    if (durable && this.outbox) {
+      this.setOutbox({ ...this.outbox, messages: [...this.outbox.messages, msg] });
+    }
+
+    if (this.authenticated && !this.resuming && this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(msg));
-    } else if (this.ws && !this.authenticated) {
+    } else if (durable && this.outbox) {
+      console.log("[operator] not connected, kept in outbox:", msg.type);
+    } else if (this.ws && (!this.authenticated || this.resuming)) {
       console.log("[operator] not yet authenticated, queuing:", msg.type);
       this.pendingMessages.push(msg);
     } else {
@@ -171,17 +801,63 @@ export class OperatorClient {
     }
   }
 
-  startAttempt(tournamentId: number) {
+  // Resolves with the operator-issued course seed once the attempt is onchain
+  startAttempt(tournamentId: number): Promise<number> {
     console.log("[operator] startAttempt called, tournament:", tournamentId, "authenticated:", this.authenticated, "connected:", this.connected);
-    this.send({ type: "START_ATTEMPT", tournamentId });
+    // Queued until reconnect, it would hang the start screen for the whole reply timeout
+    if (!this.connected) return Promise.reject(new Error(UNREACHABLE_MESSAGE));
+    this.seq = 0;
+    this.attemptId = null;
+    const requestId = crypto.randomUUID();
+    return this.request({ type: "START_ATTEMPT", tournamentId, requestId }, "ATTEMPT_STARTED", {
+      accepts: (msg) => msg.type !== "ATTEMPT_STARTED" || msg.requestId === requestId,
+      resend: true,
+    }).then((msg) => {
+      this.attemptId = msg.attemptId;
+      // Replaces whatever an earlier attempt left: the operator has moved on from it
+      if (this.address) {
+        this.setOutbox({
+          address: this.address.toLowerCase(),
+          attemptId: msg.attemptId,
+          resumeToken: msg.resumeToken,
+          messages: [],
+        });
+      }
+      return msg.seed;
+    });
+  }
+
+  // Gameplay before the operator has issued the attempt has nothing to count towards
+  obstaclePassed(obstacleId: number, frame: number) {
+    if (!this.attemptId) return;
+    this.send(
+      this.stamp<ObstaclePassedMessage>({
+        type: "OBSTACLE_PASSED",
+        attemptId: this.attemptId,
+        obstacleId,
+        frame,
+      })
+    );
   }
 
-  obstaclePassed(obstacleId: number) {
-    this.send({ type: "OBSTACLE_PASSED", obstacleId });
+  heartbeat(frame: number) {
+    if (!this.attemptId) return;
+    this.send(this.stamp<HeartbeatMessage>({ type: "HEARTBEAT", attemptId: this.attemptId, frame }));
   }
 
-  crash() {
-    this.send({ type: "CRASH" });
+  // The operator re-simulates the replay and records the score it produces.
+  // Resolves once the score is mined; rejects with the reason if it never is.
+  // If this page goes away first, the outbox still delivers the crash.
+  crash(replay: Replay): Promise<ScoreRecord> {
+    const attemptId = this.attemptId;
+    if (!attemptId) return Promise.reject(new Error("No attempt in progress"));
+    // Anything the game loop sends after this belongs to no attempt
+    this.attemptId = null;
+    return this.request(
+      this.stamp<CrashMessage>({ type: "CRASH", attemptId, replay: serializeReplay(replay) }),
+      "SCORE_RECORDED",
+      { failType: "SCORE_FAILED", accepts: forAttempt(attemptId) }
+    ).then((msg): ScoreRecord => msg);
   }
 
   isConnected(): boolean {
@@ -0,0 +1,30 @@
+import type { ScoreRecord } from "@/lib/operator-client";
+
+// Where a finished attempt stands: the score the player saw, and what the
+// operator recorded onchain once it had re-run the replay
+export type ScoreVerdict =
+  | { status: "pending"; localScore: number }
+  | (ScoreRecord & { localScore: number })
+  | { status: "failed"; localScore: number; reason: string };
+
+// Score to show for an attempt — the onchain one as soon as we have it
+export function displayScore(v: ScoreVerdict): number {
+  return v.status === "pending" || v.status === "failed" ? v.localScore : v.score;
+}
+
+export function describeVerdict(v: ScoreVerdict): string {
+  switch (v.status) {
+    case "pending":
+      return "Verifying onchain...";
+    case "verified":
+      return "Verified onchain";
+    case "mismatch":
+      // Same score, but the replay didn't match what the run reported
+      if (v.score === v.localScore) return `Replayed by the operator: ${v.reason ?? "replay differed"}`;
+      return `Replayed by the operator: ${v.score}, not ${v.localScore}`;
+    case "rejected":
+      return `Run could not be verified (${v.reason}), recorded as 0`;
+    case "failed":
+      return `Score not confirmed: ${v.reason}`;
+  }
+}
@@ -0,0 +1,450 @@
+// @ts-check
+// The operator WebSocket protocol, shared by the browser client and the
+// operator. Every message either side sends is declared here, and each end
+// validates what it receives against the same schema before acting on it.
+//
+// PROTOCOL_VERSION is sent in AUTH_CHALLENGE and AUTH. Any change to the
+// messages below that the other end can't ignore must bump it, so a stale
+// client is told to reload instead of talking past the operator.
+//
+// Each attempt has an operator-issued attemptId. Gameplay messages and every
+// reply about an attempt carry it, so nothing meant for one run can land on
+// another, and a retried message gets the original answer instead of acting
+// twice.
+
+export const PROTOCOL_VERSION = 2;
+
+// --- Client -> operator ---
+
+/**
+ * @typedef {Object} DelegationPayload
+ * @property {`0x${string}`} sessionKey
+ * @property {string} domain
+ * @property {string} scope
+ * @property {number} expiresAt - unix ms
+ * @property {`0x${string}`} signature - the wallet's EIP-712 signature
+ */
+
+/**
+ * Answers AUTH_CHALLENGE: a session token from an earlier sign-in, or a SIWE
+ * message for the challenge nonce with its signature.
+ * @typedef {Object} AuthMessage
+ * @property {"AUTH"} type
+ * @property {number} protocolVersion
+ * @property {number} rulesVersion
+ * @property {string} [sessionToken]
+ * @property {string} [message]
+ * @property {`0x${string}`} [signature]
+ * @property {DelegationPayload} [delegation] - set when a session key signed the message
+ */
+
+/**
+ * @typedef {Object} ClockSyncRequest
+ * @property {"CLOCK_SYNC"} type
+ * @property {number} clientTime
+ */
+
+/**
+ * requestId is the client's key for this request: sending it again (e.g.
+ * after a reconnect) gets the same attempt back rather than a second one.
+ * @typedef {Object} StartAttemptMessage
+ * @property {"START_ATTEMPT"} type
+ * @property {number} tournamentId
+ * @property {string} requestId
+ */
+
+/**
+ * Gameplay messages carry seq (per attempt) and at (operator clock, ms). The
+ * operator acts on a seq at most once, so resending one is always safe.
+ * @typedef {Object} ObstaclePassedMessage
+ * @property {"OBSTACLE_PASSED"} type
+ * @property {string} attemptId
+ * @property {number} obstacleId
+ * @property {number} frame
+ * @property {number} seq
+ * @property {number} at
+ */
+
+/**
+ * @typedef {Object} HeartbeatMessage
+ * @property {"HEARTBEAT"} type
+ * @property {string} attemptId
+ * @property {number} frame
+ * @property {number} seq
+ * @property {number} at
+ */
+
+/**
+ * Ends the attempt. Resending it for an attempt that has already ended gets
+ * that attempt's SCORE_RECORDED or SCORE_FAILED.
+ * @typedef {Object} CrashMessage
+ * @property {"CRASH"} type
+ * @property {string} attemptId
+ * @property {string} replay - serialized replay
+ * @property {number} seq
+ * @property {number} at
+ */
+
+/**
+ * @typedef {Object} ResumeMessage
+ * @property {"RESUME"} type
+ * @property {string} token - resumeToken from ATTEMPT_STARTED
+ */
+
+/**
+ * @typedef {AuthMessage | ClockSyncRequest | StartAttemptMessage | ObstaclePassedMessage
+ *   | HeartbeatMessage | CrashMessage | ResumeMessage} ClientMessage
+ */
+
+// --- Operator -> client ---
+
+/**
+ * @typedef {Object} AuthChallengeMessage
+ * @property {"AUTH_CHALLENGE"} type
+ * @property {string} nonce
+ * @property {number} protocolVersion
+ * @property {number} rulesVersion
+ */
+
+/**
+ * @typedef {Object} AuthOkMessage
+ * @property {"AUTH_OK"} type
+ * @property {string} address - lowercase
+ * @property {string} sessionToken
+ * @property {number} sessionExpiresAt - unix ms
+ */
+
+/**
+ * @typedef {"NO_CHALLENGE" | "PROTOCOL_MISMATCH" | "RULES_MISMATCH" | "SESSION_EXPIRED"
+ *   | "INVALID_AUTH" | "INVALID_SESSION_KEY" | "INVALID_SIGNATURE"} AuthFailureCode
+ */
+
+/**
+ * @typedef {Object} AuthFailedMessage
+ * @property {"AUTH_FAILED"} type
+ * @property {AuthFailureCode} code
+ * @property {string} message
+ * @property {number} [protocolVersion] - the operator's, on PROTOCOL_MISMATCH
+ * @property {number} [rulesVersion] - the operator's, on RULES_MISMATCH
+ */
+
+/**
+ * @typedef {Object} ClockSyncReply
+ * @property {"CLOCK_SYNC"} type
+ * @property {number} clientTime
+ * @property {number} serverTime
+ */
+
+/**
+ * @typedef {Object} AttemptStartedMessage
+ * @property {"ATTEMPT_STARTED"} type
+ * @property {string} attemptId
+ * @property {string} requestId - from the START_ATTEMPT it answers
+ * @property {`0x${string}`} txHash
+ * @property {number} seed
+ * @property {string} resumeToken
+ */
+
+/**
+ * @typedef {Object} ObstacleAckMessage
+ * @property {"OBSTACLE_ACK"} type
+ * @property {string} attemptId
+ * @property {number} obstacleId
+ * @property {number} seq
+ */
+
+/**
+ * Why an OBSTACLE_PASSED didn't count:
+ *   NO_GAME        no attempt in progress
+ *   RATE_LIMITED   sent too fast
+ *   STALE_SEQ      repeated or out-of-order message
+ *   INVALID_ID     not a positive obstacle id
+ *   NOT_ON_COURSE  no such obstacle on this course
+ *   WRONG_FRAME    the course passes it on a different frame
+ *   AHEAD_OF_TIME  run claims more game time than it has had
+ *   DUPLICATE      already counted
+ * @typedef {"NO_GAME" | "RATE_LIMITED" | "STALE_SEQ" | "INVALID_ID" | "NOT_ON_COURSE"
+ *   | "WRONG_FRAME" | "AHEAD_OF_TIME" | "DUPLICATE"} ObstacleNackReason
+ */
+
+/** @type {readonly ObstacleNackReason[]} */
+export const OBSTACLE_NACK_REASONS = [
+  "NO_GAME",
+  "RATE_LIMITED",
+  "STALE_SEQ",
+  "INVALID_ID",
+  "NOT_ON_COURSE",
+  "WRONG_FRAME",
+  "AHEAD_OF_TIME",
+  "DUPLICATE",
+];
+
+/**
+ * @typedef {Object} ObstacleNackMessage
+ * @property {"OBSTACLE_NACK"} type
+ * @property {string} attemptId
+ * @property {number} obstacleId
+ * @property {number} seq
+ * @property {ObstacleNackReason} reason
+ */
+
+/**
+ * @typedef {"verified" | "mismatch" | "rejected"} ScoreStatus
+ */
+
+/**
+ * What the operator recorded onchain for an attempt, once mined.
+ * @typedef {Object} ScoreRecordedMessage
+ * @property {"SCORE_RECORDED"} type
+ * @property {string} attemptId
+ * @property {number} score
+ * @property {`0x${string}`} txHash
+ * @property {ScoreStatus} status
+ * @property {string} [reason]
+ */
+
+/**
+ * A score the operator couldn't get onchain. Also sent on sign-in for
+ * failures that happened while the player was away.
+ * @typedef {Object} ScoreFailedMessage
+ * @property {"SCORE_FAILED"} type
+ * @property {string} attemptId
+ * @property {number} tournamentId
+ * @property {number} attemptNumber
+ * @property {number} score
+ * @property {string} reason
+ */
+
+/**
+ * @typedef {Object} ResumedMessage
+ * @property {"RESUMED"} type
+ * @property {string} attemptId
+ * @property {number} seq - last gameplay seq the operator accepted
+ * @property {number} obstacles - obstacles counted so far
+ */
+
+/**
+ * @typedef {Object} ResumeFailedMessage
+ * @property {"RESUME_FAILED"} type
+ * @property {string} message
+ */
+
+/**
+ * ATTEMPT_ENDED answers a retried START_ATTEMPT whose attempt is already over.
+ * @typedef {"INVALID_MESSAGE" | "UNKNOWN_TYPE" | "NOT_AUTHENTICATED" | "RATE_LIMITED"
+ *   | "GAME_IN_PROGRESS" | "NOT_ELIGIBLE" | "START_FAILED" | "NO_GAME" | "ATTEMPT_ENDED"
+ *   | "INTERNAL"} ErrorCode
+ */
+
+/**
+ * A request that was refused. replyTo names the type of the message it
+ * answers, and attemptId the attempt, when the operator could tell.
+ * @typedef {Object} ErrorMessage
+ * @property {"ERROR"} type
+ * @property {ErrorCode} code
+ * @property {string} message
+ * @property {string} [replyTo]
+ * @property {string} [field] - the offending field, for INVALID_MESSAGE
+ * @property {string} [attemptId]
+ */
+
+/**
+ * @typedef {AuthChallengeMessage | AuthOkMessage | AuthFailedMessage | ClockSyncReply
+ *   | AttemptStartedMessage | ObstacleAckMessage | ObstacleNackMessage | ScoreRecordedMessage
+ *   | ScoreFailedMessage | ResumedMessage | ResumeFailedMessage | ErrorMessage} ServerMessage
+ */
+
+/**
+ * @template {ServerMessage["type"]} T
+ * @typedef {Extract<ServerMessage, { type: T }>} ServerMessageOf
+ */
+
+/**
+ * @typedef {{ code: "INVALID_MESSAGE" | "UNKNOWN_TYPE", message: string, field?: string }} ValidationError
+ */
+
+/**
+ * @template M
+ * @typedef {{ ok: true, message: M } | { ok: false, error: ValidationError }} ValidationResult
+ */
+
+// --- Validation ---
+// A schema maps each field to a check; fields not listed are ignored. Limits
+// are generous — they only stop a message from carrying something absurd.
+
+/** @typedef {(value: unknown) => boolean} Check */
+
+/** @type {Check} */
+const int = (v) => Number.isSafeInteger(v);
+/** @type {Check} */
+const num = (v) => typeof v === "number" && Number.isFinite(v);
+/** @param {number} max @returns {Check} */
+const str = (max) => (v) => typeof v === "string" && v.length <= max;
+// Free text for people — only ever displayed or logged
+/** @type {Check} */
+const text = (v) => typeof v === "string";
+/** @type {Check} */
+const id = str(128);
+/** @type {Check} */
+const hex = (v) => typeof v === "string" && v.length <= 1024 && /^0x[0-9a-fA-F]*$/.test(v);
+/** @type {Check} */
+const address = (v) => typeof v === "string" && /^0x[0-9a-fA-F]{40}$/.test(v);
+/** @param {readonly unknown[]} values @returns {Check} */
+const oneOf = (values) => (v) => values.includes(v);
+/** @param {Check} check @returns {Check} */
+const optional = (check) => (v) => v === undefined || check(v);
+/** @param {Record<string, Check>} fields @returns {Check} */
+const object = (fields) => (v) => isObject(v) && invalidField(fields, v) === null;
+
+/** @param {unknown} v @returns {v is Record<string, unknown>} */
+function isObject(v) {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * @param {Record<string, Check>} fields
+ * @param {Record<string, unknown>} value
+ */
+function invalidField(fields, value) {
+  for (const [name, check] of Object.entries(fields)) {
+    if (!check(value[name])) return name;
+  }
+  return null;
+}
+
+/** @type {Record<ClientMessage["type"], Record<string, Check>>} */
+const CLIENT_SCHEMAS = {
+  AUTH: {
+    protocolVersion: int,
+    rulesVersion: int,
+    sessionToken: optional(str(128)),
+    message: optional(str(2000)),
+    signature: optional(hex),
+    delegation: optional(
+      object({
+        sessionKey: address,
+        domain: str(255),
+        scope: str(32),
+        expiresAt: int,
+        signature: hex,
+      })
+    ),
+  },
+  CLOCK_SYNC: { clientTime: num },
+  START_ATTEMPT: { tournamentId: int, requestId: id },
+  OBSTACLE_PASSED: { attemptId: id, obstacleId: int, frame: int, seq: int, at: num },
+  HEARTBEAT: { attemptId: id, frame: int, seq: int, at: num },
+  CRASH: { attemptId: id, replay: str(16 * 1024), seq: int, at: num },
+  RESUME: { token: str(128) },
+};
+
+/** @type {Record<ServerMessage["type"], Record<string, Check>>} */
+const SERVER_SCHEMAS = {
+  AUTH_CHALLENGE: { nonce: str(128), protocolVersion: int, rulesVersion: int },
+  AUTH_OK: { address, sessionToken: str(128), sessionExpiresAt: int },
+  AUTH_FAILED: {
+    code: oneOf([
+      "NO_CHALLENGE",
+      "PROTOCOL_MISMATCH",
+      "RULES_MISMATCH",
+      "SESSION_EXPIRED",
+      "INVALID_AUTH",
+      "INVALID_SESSION_KEY",
+      "INVALID_SIGNATURE",
+    ]),
+    message: text,
+    protocolVersion: optional(int),
+    rulesVersion: optional(int),
+  },
+  CLOCK_SYNC: { clientTime: num, serverTime: num },
+  ATTEMPT_STARTED: {
+    attemptId: id,
+    requestId: id,
+    txHash: hex,
+    seed: int,
+    resumeToken: str(128),
+  },
+  OBSTACLE_ACK: { attemptId: id, obstacleId: int, seq: int },
+  OBSTACLE_NACK: {
+    attemptId: id,
+    obstacleId: int,
+    seq: int,
+    reason: oneOf(OBSTACLE_NACK_REASONS),
+  },
+  SCORE_RECORDED: {
+    attemptId: id,
+    score: int,
+    txHash: hex,
+    status: oneOf(["verified", "mismatch", "rejected"]),
+    reason: optional(text),
+  },
+  SCORE_FAILED: {
+    attemptId: id,
+    tournamentId: int,
+    attemptNumber: int,
+    score: int,
+    reason: text,
+  },
+  RESUMED: { attemptId: id, seq: int, obstacles: int },
+  RESUME_FAILED: { message: text },
+  ERROR: {
+    code: oneOf([
+      "INVALID_MESSAGE",
+      "UNKNOWN_TYPE",
+      "NOT_AUTHENTICATED",
+      "RATE_LIMITED",
+      "GAME_IN_PROGRESS",
+      "NOT_ELIGIBLE",
+      "START_FAILED",
+      "NO_GAME",
+      "ATTEMPT_ENDED",
+      "INTERNAL",
+    ]),
+    message: text,
+    replyTo: optional(str(64)),
+    field: optional(str(64)),
+    attemptId: optional(id),
+  },
+};
+
+/**
+ * @param {Record<string, Record<string, Check>>} schemas
+ * @param {unknown} value
+ * @returns {ValidationResult<unknown>}
+ */
+function validate(schemas, value) {
+  if (!isObject(value)) {
+    return { ok: false, error: { code: "INVALID_MESSAGE", message: "Message must be a JSON object" } };
+  }
+  const { type } = value;
+  if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+    return { ok: false, error: { code: "UNKNOWN_TYPE", message: `Unknown message type: ${String(type)}` } };
+  }
+  const field = invalidField(schemas[type], value);
+  if (field !== null) {
+    return {
+      ok: false,
+      error: { code: "INVALID_MESSAGE", message: `Invalid ${field} in ${type}`, field },
+    };
+  }
+  return { ok: true, message: value };
+}
+
+/**
+ * Check a parsed message from a client (operator side).
+ * @param {unknown} value
+ * @returns {ValidationResult<ClientMessage>}
+ */
+export function validateClientMessage(value) {
+  // Passing its type's schema is what makes it a ClientMessage
+  return /** @type {ValidationResult<ClientMessage>} */ (validate(CLIENT_SCHEMAS, value));
+}
+
+/**
+ * Check a parsed message from the operator (browser side).
+ * @param {unknown} value
+ * @returns {ValidationResult<ServerMessage>}
+ */
+export function validateServerMessage(value) {
+  return /** @type {ValidationResult<ServerMessage>} */ (validate(SERVER_SCHEMAS, value));
+}
@@ -0,0 +1,119 @@
+// @ts-check
+// Input replays: everything needed to reproduce a run exactly.
+// A run is fully determined by its seed and the frames on which jump() was
+// called, so that's all we keep.
+//
+// Serialized form (all numbers base36, jump frames delta-encoded):
+//   <format>.<rules>.<seed>.<frames>.<score>.<d1>,<d2>,...
+
+import { Simulation } from "./simulation.mjs";
+import { RULES_VERSION, MAX_RUN_FRAMES } from "./rules.mjs";
+
+export const REPLAY_FORMAT_VERSION = 2;
+
+/**
+ * @typedef {Object} Replay
+ * @property {number} format - REPLAY_FORMAT_VERSION at record time
+ * @property {number} rules - RULES_VERSION at record time
+ * @property {number} seed
+ * @property {number} frames - simulation frames until the crash, or until
+ *   the player abandoned the run
+ * @property {number} score - score the client saw
+ * @property {number[]} jumps - frame number of every jump() call, ascending
+ */
+
+/**
+ * @typedef {Object} ReplayResult
+ * @property {number} score
+ * @property {number} frames
+ * @property {boolean} crashed - false if the run was abandoned before crashing
+ * @property {number[]} obstacleIds - in the order they were passed
+ */
+
+/**
+ * @param {Replay} replay
+ * @returns {string}
+ */
+export function serializeReplay(replay) {
+  let prev = 0;
+  const deltas = replay.jumps.map((f) => {
+    const d = f - prev;
+    prev = f;
+    return d.toString(36);
+  });
+  return [
+    replay.format,
+    replay.rules,
+    replay.seed,
+    replay.frames,
+    replay.score,
+  ]
+    .map((n) => n.toString(36))
+    .concat(deltas.join(","))
+    .join(".");
+}
+
+/**
+ * @param {string} text
+ * @returns {Replay}
+ */
+export function parseReplay(text) {
+  if (typeof text !== "string") throw new Error("Replay must be a string");
+  const parts = text.split(".");
+  if (parts.length !== 6) throw new Error("Malformed replay");
+
+  const nums = parts.slice(0, 5).map((p) => parseBase36(p));
+  const [format, rules, seed, frames, score] = nums;
+  if (format !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay format ${format}`);
+  }
+
+  /** @type {number[]} */
+  const jumps = [];
+  let frame = 0;
+  for (const d of parts[5] ? parts[5].split(",") : []) {
+    frame += parseBase36(d);
+    if (frame > frames) throw new Error("Jump after end of replay");
+    jumps.push(frame);
+  }
+
+  return { format, rules, seed, frames, score, jumps };
+}
+
+/**
+ * @param {string} s
+ */
+function parseBase36(s) {
+  if (!/^[0-9a-z]{1,8}$/.test(s)) throw new Error("Malformed replay");
+  return parseInt(s, 36);
+}
+
+/**
+ * Re-run a replay headlessly and report what the simulation actually produced.
+ * @param {Replay} replay
+ * @returns {ReplayResult}
+ */
+export function simulateReplay(replay) {
+  if (replay.rules !== RULES_VERSION) {
+    throw new Error(`Replay rules ${replay.rules} do not match ${RULES_VERSION}`);
+  }
+  const sim = new Simulation(replay.seed);
+  /** @type {number[]} */
+  const obstacleIds = [];
+  let next = 0;
+
+  // Runs until the crash, or until the frame the player stopped on. Nothing
+  // past MAX_RUN_FRAMES scores: a longer replay is cut off there, not refused.
+  const end = Math.min(replay.frames, MAX_RUN_FRAMES);
+  while (!sim.crashed && sim.frame < end) {
+    while (next < replay.jumps.length && replay.jumps[next] === sim.frame) {
+      sim.jump();
+      next++;
+    }
+    for (const ev of sim.step()) {
+      if (ev.type === "obstacle") obstacleIds.push(ev.obstacle.id);
+    }
+  }
+
+  return { score: sim.getScore(), frames: sim.frame, crashed: sim.crashed, obstacleIds };
+}
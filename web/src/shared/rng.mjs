@@ -0,0 +1,19 @@
+// @ts-check
+// Seeded PRNG for the simulation (mulberry32).
+// Math.random() can't be seeded, so two runs could never be compared. This one
+// is tiny, 32-bit, and gives identical sequences in every browser and in Node.
+
+/**
+ * @param {number} seed - uint32 seed
+ * @returns {() => number} generator of floats in [0, 1)
+ */
+export function createRng(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,33 @@
+// @ts-check
+// Game rules shared by the browser engine and the operator.
+// Everything here decides a run's outcome, so both sides import this one file
+// rather than keeping copies. Any change that alters the result of a given
+// seed + input sequence must bump RULES_VERSION: replays record it, and the
+// operator refuses clients that play by different rules.
+
+export const RULES_VERSION = 3;
+
+// Fixed virtual world. Every device simulates exactly this space and the
+// renderer scales it to fit, so nobody sees obstacles sooner than anyone else.
+export const WORLD_WIDTH = 960;
+export const WORLD_HEIGHT = 540;
+export const GROUND_Y = 459; // ground area = bottom 15% of the world
+
+// --- Timing ---
+export const STEP_MS = 1000 / 60; // one simulation frame — fixed, whatever the display rate
+export const MAX_RUN_MS = 5 * 60 * 1000; // longest attempt the operator will score
+export const MAX_RUN_FRAMES = Math.ceil(MAX_RUN_MS / STEP_MS); // live runs end on this frame
+
+// --- Physics ---
+export const GRAVITY = 0.55;
+export const JUMP_VELOCITY = -14;
+export const OBSTACLE_SPEED_START = 6;
+export const OBSTACLE_SPEED_INCREMENT = 0.0008;
+export const MAX_SPEED = 14;
+export const FLUFFLE_SIZE = 48;
+export const HITBOX_SHRINK = 12;
+
+// --- Scoring: distance points per frame + bonus per obstacle ---
+export const DISTANCE_SCORE_RATE = 0.15; // points per frame (scaled by speed)
+export const OBSTACLE_BONUS = 25;
+export const MAX_SCORE = 10000; // the contract's MAX_SCORE; live runs end on reaching it
@@ -0,0 +1,44 @@
+// @ts-check
+// Session-key delegation, shared by the browser (which has it signed) and the
+// operator (which checks it). The main wallet signs one EIP-712 delegation for
+// a throwaway key kept in the browser; that key then answers the operator's
+// sign-in challenges without another wallet prompt, until the delegation expires.
+
+export const SESSION_KEY_SCOPE = "play"; // operator sign-in only — never funds
+export const SESSION_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} Delegation
+ * @property {`0x${string}`} sessionKey - address of the browser key
+ * @property {string} domain - the only site the key may sign in from
+ * @property {string} scope - SESSION_KEY_SCOPE
+ * @property {number} expiresAt - unix ms
+ */
+
+const DELEGATION_TYPES = /** @type {const} */ ({
+  SessionKey: [
+    { name: "sessionKey", type: "address" },
+    { name: "domain", type: "string" },
+    { name: "scope", type: "string" },
+    { name: "expiresAt", type: "uint256" },
+  ],
+});
+
+/**
+ * EIP-712 payload for a delegation, as passed to signTypedData / verifyTypedData.
+ * @param {number} chainId
+ * @param {Delegation} delegation
+ */
+export function delegationTypedData(chainId, delegation) {
+  return {
+    domain: { name: "MegaRally", version: "1", chainId },
+    types: DELEGATION_TYPES,
+    primaryType: /** @type {const} */ ("SessionKey"),
+    message: {
+      sessionKey: delegation.sessionKey,
+      domain: delegation.domain,
+      scope: delegation.scope,
+      expiresAt: BigInt(delegation.expiresAt),
+    },
+  };
+}
@@ -0,0 +1,272 @@
+// @ts-check
+// Headless simulation core for Fluffle Dash.
+// Pure and deterministic: no DOM, no canvas, no Math.random(). The same seed
+// and the same jump frames always produce the same course and the same score,
+// so a run can be reproduced in the browser or re-run in Node.
+// Constants come from rules.mjs; course generation below is part of the rules
+// too, so changing it means bumping RULES_VERSION.
+
+import { createRng } from "./rng.mjs";
+import {
+  WORLD_WIDTH,
+  GROUND_Y,
+  GRAVITY,
+  JUMP_VELOCITY,
+  OBSTACLE_SPEED_START,
+  OBSTACLE_SPEED_INCREMENT,
+  MAX_SPEED,
+  FLUFFLE_SIZE,
+  HITBOX_SHRINK,
+  DISTANCE_SCORE_RATE,
+  OBSTACLE_BONUS,
+  MAX_SCORE,
+} from "./rules.mjs";
+
+/** @typedef {"trashcan" | "crate" | "car" | "barrier"} ObstacleStyle */
+
+/** @type {ObstacleStyle[]} */
+export const OBSTACLE_STYLES = ["trashcan", "crate", "car", "barrier"];
+export const OBSTACLE_PALETTE_COUNT = 5;
+
+/**
+ * @typedef {Object} Player
+ * @property {number} x
+ * @property {number} y
+ * @property {number} width
+ * @property {number} height
+ * @property {number} velocityY
+ * @property {boolean} isJumping
+ * @property {"running" | "jumping" | "crashed"} state
+ */
+
+/**
+ * @typedef {Object} Obstacle
+ * @property {number} id
+ * @property {number} x
+ * @property {number} y
+ * @property {number} width
+ * @property {number} height
+ * @property {boolean} passed
+ * @property {ObstacleStyle} style
+ * @property {number} palette - index into the renderer's palette table
+ */
+
+/**
+ * Events produced by a single step, in the order they happened.
+ * @typedef {{ type: "obstacle"; obstacle: Obstacle } | { type: "crash" }} SimEvent
+ */
+
+/**
+ * @param {number} n - obstacles passed so far
+ */
+function getDifficulty(n) {
+  if (n < 4) {
+    return { minH: 32, maxH: 44, minW: 24, maxW: 36, minGap: 420, maxGap: 550 };
+  } else if (n < 8) {
+    return { minH: 34, maxH: 48, minW: 26, maxW: 40, minGap: 400, maxGap: 520 };
+  } else if (n < 12) {
+    return { minH: 36, maxH: 52, minW: 28, maxW: 44, minGap: 370, maxGap: 480 };
+  } else if (n < 18) {
+    return { minH: 38, maxH: 56, minW: 30, maxW: 48, minGap: 340, maxGap: 440 };
+  } else if (n < 24) {
+    return { minH: 40, maxH: 58, minW: 32, maxW: 50, minGap: 310, maxGap: 400 };
+  } else if (n < 30) {
+    return { minH: 42, maxH: 62, minW: 34, maxW: 52, minGap: 280, maxGap: 370 };
+  } else if (n < 36) {
+    return { minH: 44, maxH: 64, minW: 36, maxW: 56, minGap: 260, maxGap: 340 };
+  } else if (n < 42) {
+    return { minH: 46, maxH: 66, minW: 38, maxW: 58, minGap: 240, maxGap: 310 };
+  } else {
+    return { minH: 48, maxH: 70, minW: 40, maxW: 60, minGap: 220, maxGap: 290 };
+  }
+}
+
+export class Simulation {
+  /**
+   * @param {number} seed - uint32 course seed
+   */
+  constructor(seed) {
+    this.seed = seed >>> 0;
+    this.rng = createRng(this.seed);
+    this.frame = 0;
+    this.speed = OBSTACLE_SPEED_START;
+    this.score = 0;
+    this.obstaclesPassed = 0;
+    this.obstacleIdCounter = 0;
+    this.nextObstacleX = 300;
+    /** @type {Obstacle[]} */
+    this.obstacles = [];
+    /** @type {Player} */
+    this.player = this.createPlayer();
+    this.crashed = false;
+  }
+
+  /**
+   * Restart from frame 0 with a new seed.
+   * @param {number} seed
+   */
+  reset(seed) {
+    this.seed = seed >>> 0;
+    this.rng = createRng(this.seed);
+    this.frame = 0;
+    this.speed = OBSTACLE_SPEED_START;
+    this.score = 0;
+    this.obstaclesPassed = 0;
+    this.obstacleIdCounter = 0;
+    this.nextObstacleX = 300;
+    this.obstacles = [];
+    this.player = this.createPlayer();
+    this.crashed = false;
+  }
+
+  /** @returns {Player} */
+  createPlayer() {
+    return {
+      x: WORLD_WIDTH * 0.2,
+      y: GROUND_Y - FLUFFLE_SIZE,
+      width: FLUFFLE_SIZE,
+      height: FLUFFLE_SIZE,
+      velocityY: 0,
+      isJumping: false,
+      state: "running",
+    };
+  }
+
+  /**
+   * Applies on the next step. Returns true if a jump actually started.
+   * @returns {boolean}
+   */
+  jump() {
+    const p = this.player;
+    if (p.state === "crashed" || p.isJumping) return false;
+    p.velocityY = JUMP_VELOCITY;
+    p.isJumping = true;
+    p.state = "jumping";
+    return true;
+  }
+
+  /**
+   * Integer score, as reported to the player and the operator. Capped at
+   * MAX_SCORE, the most the contract will record.
+   */
+  getScore() {
+    return Math.min(Math.floor(this.score), MAX_SCORE);
+  }
+
+  /**
+   * Advance one frame.
+   * @returns {SimEvent[]}
+   */
+  step() {
+    /** @type {SimEvent[]} */
+    const events = [];
+    if (this.crashed) return events;
+
+    this.speed = Math.min(MAX_SPEED, OBSTACLE_SPEED_START + this.frame * OBSTACLE_SPEED_INCREMENT);
+    this.score += DISTANCE_SCORE_RATE * (this.speed / OBSTACLE_SPEED_START);
+    this.updatePlayer();
+    this.updateObstacles(events);
+    this.spawnObstacles();
+    if (this.checkCollisions()) {
+      this.crashed = true;
+      this.player.state = "crashed";
+      events.push({ type: "crash" });
+    }
+    this.frame++;
+    return events;
+  }
+
+  updatePlayer() {
+    const p = this.player;
+    p.velocityY += GRAVITY;
+    p.y += p.velocityY;
+    if (p.y >= GROUND_Y - FLUFFLE_SIZE) {
+      p.y = GROUND_Y - FLUFFLE_SIZE;
+      p.velocityY = 0;
+      p.isJumping = false;
+      if (p.state === "jumping") {
+        p.state = "running";
+      }
+    }
+  }
+
+  /**
+   * @param {SimEvent[]} events
+   */
+  updateObstacles(events) {
+    for (let i = this.obstacles.length - 1; i >= 0; i--) {
+      const obs = this.obstacles[i];
+      obs.x -= this.speed;
+      if (!obs.passed && obs.x + obs.width < this.player.x) {
+        obs.passed = true;
+        this.obstaclesPassed++;
+        this.score += OBSTACLE_BONUS;
+        events.push({ type: "obstacle", obstacle: obs });
+      }
+      if (obs.x + obs.width < -50) {
+        this.obstacles.splice(i, 1);
+      }
+    }
+  }
+
+  spawnObstacles() {
+    this.nextObstacleX -= this.speed;
+    if (this.nextObstacleX > 0) return;
+
+    // Draw order matters — changing it changes every seeded course
+    const diff = getDifficulty(this.obstaclesPassed);
+    const spacing = diff.minGap + this.rng() * (diff.maxGap - diff.minGap);
+    this.nextObstacleX = spacing;
+    const obstacleHeight = diff.minH + this.rng() * (diff.maxH - diff.minH);
+    const obstacleWidth = diff.minW + this.rng() * (diff.maxW - diff.minW);
+    const style = OBSTACLE_STYLES[Math.floor(this.rng() * OBSTACLE_STYLES.length)];
+    const palette = Math.floor(this.rng() * OBSTACLE_PALETTE_COUNT);
+    this.obstacleIdCounter++;
+    this.obstacles.push({
+      id: this.obstacleIdCounter,
+      x: WORLD_WIDTH + 50,
+      y: GROUND_Y - obstacleHeight,
+      width: obstacleWidth,
+      height: obstacleHeight,
+      passed: false,
+      style,
+      palette,
+    });
+  }
+
+  checkCollisions() {
+    const f = this.player;
+    const fLeft = f.x + HITBOX_SHRINK;
+    const fRight = f.x + f.width - HITBOX_SHRINK;
+    const fTop = f.y + HITBOX_SHRINK;
+    const fBottom = f.y + f.height - HITBOX_SHRINK;
+    for (const obs of this.obstacles) {
+      if (obs.passed) continue;
+      if (fRight > obs.x + 4 && fLeft < obs.x + obs.width - 4 && fBottom > obs.y + 4 && fTop < obs.y + obs.height) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Frame on which each obstacle of a course is passed, indexed by id - 1.
+ * Obstacles move and spawn the same way whatever the player does, so for as
+ * long as a run survives it passes them on exactly these frames.
+ * @param {number} seed
+ * @param {number} maxFrames
+ * @returns {number[]}
+ */
+export function obstacleSchedule(seed, maxFrames) {
+  const sim = new Simulation(seed);
+  sim.checkCollisions = () => false;
+  /** @type {number[]} */
+  const frames = [];
+  while (sim.frame < maxFrames) {
+    for (const ev of sim.step()) {
+      if (ev.type === "obstacle") frames.push(sim.frame);
+    }
+  }
+  return frames;
+}
@@ -0,0 +1,48 @@
+// @ts-check
+// Ticket grouping for leaderboards, shared by the web app and the operator's
+// HTTP API so both rank entries the same way. Mirrors the contract: every
+// ticket buys ATTEMPTS_PER_TICKET attempts, and scores are stored in play order.
+
+export const ATTEMPTS_PER_TICKET = 3;
+
+/**
+ * One ticket's worth of attempts — the unit the leaderboard ranks.
+ * @typedef {Object} TicketEntry
+ * @property {string} player
+ * @property {number} ticket - 1-indexed
+ * @property {number} ticketScore - sum of the attempts played on this ticket
+ * @property {number[]} scores - individual attempt scores for this ticket
+ */
+
+/**
+ * Split a player's scores into ticket groups. Tickets with no attempts played
+ * yet are left out.
+ * @param {string} player
+ * @param {number} tickets
+ * @param {number[]} scores - every recorded attempt, in order
+ * @returns {TicketEntry[]}
+ */
+export function groupTickets(player, tickets, scores) {
+  /** @type {TicketEntry[]} */
+  const entries = [];
+  for (let t = 0; t < tickets; t++) {
+    const ticketScores = scores.slice(t * ATTEMPTS_PER_TICKET, (t + 1) * ATTEMPTS_PER_TICKET);
+    if (ticketScores.length === 0) continue;
+    entries.push({
+      player,
+      ticket: t + 1,
+      ticketScore: ticketScores.reduce((a, b) => a + b, 0),
+      scores: ticketScores,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Best ticket first.
+ * @param {TicketEntry[]} entries
+ * @returns {TicketEntry[]}
+ */
+export function rankTickets(entries) {
+  return [...entries].sort((a, b) => b.ticketScore - a.ticketScore);
+}